@@ -0,0 +1,17 @@
+// CSI sequences (colors, cursor movement) and OSC sequences (titles, hyperlinks)
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+export const stripAnsi = (text: string) => text.replace(ANSI_PATTERN, '');
+
+// 7-bit and 8-bit (C1) escape sequences, including unterminated OSC/DCS/SOS/PM/APC strings
+const ESCAPE_SEQUENCE_PATTERN = new RegExp([
+    /(?:\x1b\[|\x9b)[0-?]*[ -\/]*[@-~]/.source,
+    /(?:\x1b[\]PX^_]|[\x90\x98\x9d\x9e\x9f])[^\x07\x1b\x9c]*(?:\x07|\x1b\\|\x9c)?/.source,
+    /\x1b[ -\/]*[0-~]?/.source,
+].join('|'), 'g');
+
+// Remaining C0/C1 controls except tab and newline, plus bidi overrides that reorder what is displayed
+const CONTROL_PATTERN = /[\x00-\x08\x0b-\x1f\x7f-\x9f\u202a-\u202e\u2066-\u2069]/g;
+
+// Makes an untrusted string safe to print: no escape sequences, carriage returns, bells or bidi tricks
+export const sanitizeText = (text: string) => text.replace(ESCAPE_SEQUENCE_PATTERN, '').replace(CONTROL_PATTERN, '');
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { UseApi } from '.';
+import { cacheTtl, createResponseCache, FINALITY_CONFIRMATIONS, withCache } from './cache';
+
+const TX = '/transactions/{transaction_hash}';
+const INSTANCE = 'https://eth.blockscout.com/api/v2/';
+
+// A fake client that answers every request with `respond` and counts the calls
+const counting = (respond: (path: string) => { status: number; data: unknown }) => {
+    const calls: string[] = [];
+    const api = (async (path: string) => {
+        calls.push(path);
+
+        const response = respond(path);
+
+        if (response.status !== 200) {
+            throw Object.assign(new Error(`status ${response.status}`), response);
+        }
+
+        return response;
+    }) as unknown as UseApi;
+
+    return { api, calls };
+};
+
+const get = (api: UseApi, path: string, options: unknown = {}) => (api as any)(path, 'get', options);
+
+describe('cacheTtl', () => {
+    test('keeps final transactions forever and skips pending ones', () => {
+        expect(cacheTtl(TX, { block_number: 1, confirmations: FINALITY_CONFIRMATIONS })).toBe(Infinity);
+        expect(cacheTtl(TX, { block_number: 1, confirmations: 3 })).toBeLessThan(Infinity);
+        expect(cacheTtl(TX, { block_number: null, confirmations: 0 })).toBe(0);
+    });
+
+    test('treats blocks as final once they are deep enough below the known tip', () => {
+        const block = { height: 1000 };
+
+        expect(cacheTtl('/blocks/{block_number_or_hash}', block, 1000 + FINALITY_CONFIRMATIONS)).toBe(Infinity);
+        expect(cacheTtl('/blocks/{block_number_or_hash}', block, 1001)).toBeLessThan(Infinity);
+        expect(cacheTtl('/blocks/{block_number_or_hash}', block)).toBeLessThan(Infinity);
+    });
+
+    test('keeps verified contract source forever', () => {
+        expect(cacheTtl('/smart-contracts/{address_hash}', { is_verified: true })).toBe(Infinity);
+        expect(cacheTtl('/smart-contracts/{address_hash}', { is_verified: false })).toBeLessThan(Infinity);
+    });
+
+    test('gives balances, latest blocks and stats short TTLs', () => {
+        for (const path of ['/addresses/{address_hash}', '/blocks', '/stats']) {
+            expect(cacheTtl(path, {})).toBeGreaterThan(0);
+            expect(cacheTtl(path, {})).toBeLessThanOrEqual(60_000);
+        }
+    });
+});
+
+describe('withCache', () => {
+    let now = 0;
+    let directory: string | undefined;
+
+    afterEach(() => {
+        now = 0;
+
+        if (directory) {
+            rmSync(directory, { recursive: true, force: true });
+            directory = undefined;
+        }
+    });
+
+    test('serves repeated requests from memory until the TTL expires', async () => {
+        const cache = createResponseCache({ now: () => now });
+        const { api, calls } = counting(() => ({ status: 200, data: { coin_balance: '1' } }));
+        const cached = withCache(api, cache, INSTANCE);
+        const options = { path: { address_hash: '0xabc' } };
+
+        await get(cached, '/addresses/{address_hash}', options);
+        await get(cached, '/addresses/{address_hash}', options);
+        expect(calls).toHaveLength(1);
+
+        await get(cached, '/addresses/{address_hash}', { path: { address_hash: '0xdef' } });
+        expect(calls).toHaveLength(2);
+
+        now += 60_000;
+        await get(cached, '/addresses/{address_hash}', options);
+        expect(calls).toHaveLength(3);
+
+        expect(cache.stats()).toMatchObject({ hits: 1, misses: 3 });
+    });
+
+    test('keeps immutable responses regardless of time', async () => {
+        const cache = createResponseCache({ now: () => now });
+        const { api, calls } = counting(() => ({ status: 200, data: { block_number: 5, confirmations: 1000 } }));
+        const cached = withCache(api, cache, INSTANCE);
+
+        await get(cached, TX, { path: { transaction_hash: '0x1' } });
+        now += 365 * 24 * 3600 * 1000;
+        await get(cached, TX, { path: { transaction_hash: '0x1' } });
+
+        expect(calls).toHaveLength(1);
+        expect(cache.stats()).toMatchObject({ entries: 1, immutable: 1 });
+    });
+
+    test('never caches errors', async () => {
+        const cache = createResponseCache();
+        const { api, calls } = counting(() => ({ status: 404, data: { message: 'Not found' } }));
+        const cached = withCache(api, cache, INSTANCE);
+
+        await expect(get(cached, '/tokens/{address_hash}', { path: { address_hash: '0x0' } })).rejects.toMatchObject({ status: 404 });
+        await expect(get(cached, '/tokens/{address_hash}', { path: { address_hash: '0x0' } })).rejects.toMatchObject({ status: 404 });
+
+        expect(calls).toHaveLength(2);
+        expect(cache.stats().entries).toBe(0);
+    });
+
+    test('learns the chain tip from the latest blocks', async () => {
+        const cache = createResponseCache();
+        const { api } = counting((path) => path === '/blocks'
+            ? { status: 200, data: { items: [{ height: 5000 }, { height: 4999 }], next_page_params: null } }
+            : { status: 200, data: { height: 100 } });
+        const cached = withCache(api, cache, INSTANCE);
+
+        await get(cached, '/blocks');
+        await get(cached, '/blocks/{block_number_or_hash}', { path: { block_number_or_hash: '100' } });
+
+        expect(cache.tips.get(INSTANCE)).toBe(5000);
+        expect(cache.stats().immutable).toBe(1);
+    });
+
+    test('persists entries on disk across cache instances and clears them', async () => {
+        directory = mkdtempSync(join(tmpdir(), 'blockscout-cache-'));
+        const { api, calls } = counting(() => ({ status: 200, data: { block_number: 5, confirmations: 1000 } }));
+
+        await get(withCache(api, createResponseCache({ directory }), INSTANCE), TX, { path: { transaction_hash: '0x1' } });
+
+        const reopened = createResponseCache({ directory });
+        const response = await get(withCache(api, reopened, INSTANCE), TX, { path: { transaction_hash: '0x1' } });
+
+        expect(response.data).toEqual({ block_number: 5, confirmations: 1000 });
+        expect(calls).toHaveLength(1);
+
+        reopened.clear();
+        expect(readdirSync(directory)).toEqual([]);
+        expect(reopened.stats()).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+    });
+
+    test('clear() leaves files it did not write alone', async () => {
+        directory = mkdtempSync(join(tmpdir(), 'blockscout-cache-'));
+        const cache = createResponseCache({ directory });
+        const { api } = counting(() => ({ status: 200, data: { block_number: 5, confirmations: 1000 } }));
+        // A recorded fixture, and a file that only looks like a cache entry
+        const foreign = {
+            'get_stats_31581183.json': JSON.stringify({ request: { method: 'GET', path: '/stats', query: {} }, response: { status: 200, body: {} } }),
+            [`${'0'.repeat(40)}.json`]: JSON.stringify({ key: 'something else', response: {} }),
+            'notes.txt': 'keep me',
+        };
+
+        for (const [file, content] of Object.entries(foreign)) {
+            writeFileSync(join(directory, file), content);
+        }
+
+        await get(withCache(api, cache, INSTANCE), TX, { path: { transaction_hash: '0x1' } });
+        expect(readdirSync(directory)).toHaveLength(4);
+
+        cache.clear();
+        expect(readdirSync(directory).sort()).toEqual(Object.keys(foreign).sort());
+    });
+});
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { debug } from '../debug';
+import type { UseApi } from '.';
+import { fixtureKey, resolveRequest } from './fixtures';
+import { middleware } from './middleware';
+
+// Transactions and blocks this deep are treated as final (FINALITY_CONFIRMATIONS)
+export const FINALITY_CONFIRMATIONS = Number(process.env.FINALITY_CONFIRMATIONS) || 64;
+
+// Set BLOCKSCOUT_CACHE_DIR to keep responses across runs
+export const CACHE_DIR = process.env.BLOCKSCOUT_CACHE_DIR || undefined;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Short lifetimes for data that changes with every block, by path template
+const MUTABLE_TTLS: Record<string, number> = {
+    '/addresses/{address_hash}': 30 * SECOND,
+    '/addresses/{address_hash}/counters': 30 * SECOND,
+    '/addresses/{address_hash}/token-balances': 30 * SECOND,
+    '/addresses/{address_hash}/transactions': 15 * SECOND,
+    '/blocks': 5 * SECOND,
+    '/stats': MINUTE,
+    '/search': 5 * MINUTE,
+    '/tokens/{address_hash}': MINUTE,
+    '/tokens/{address_hash}/counters': MINUTE,
+};
+
+const DEFAULT_TTL = 15 * SECOND;
+
+type CachedResponse = { status: number; data: unknown };
+
+type CacheEntry = {
+    response: CachedResponse;
+    // null for immutable data
+    expiresAt: number | null;
+};
+
+export type CacheStats = {
+    entries: number;
+    immutable: number;
+    hits: number;
+    misses: number;
+    directory?: string;
+};
+
+export type ResponseCache = {
+    get: (key: string) => CachedResponse | undefined;
+    set: (key: string, response: CachedResponse, ttl: number) => void;
+    // Highest block seen per instance, to tell how deep a block is
+    tips: Map<string, number>;
+    stats: () => CacheStats;
+    clear: () => void;
+};
+
+const confirmed = (data: any) => typeof data?.confirmations === 'number' && data.confirmations >= FINALITY_CONFIRMATIONS;
+
+/**
+ * How long a successful response may be reused: Infinity for data that can
+ * no longer change (final transactions and blocks, verified contract source),
+ * a short TTL for balances, latest blocks and stats, 0 for pending data.
+ */
+export const cacheTtl = (path: string, data: any, tip?: number) => {
+    switch (path) {
+        case '/transactions/{transaction_hash}':
+            if (data?.block_number === null || data?.block_number === undefined) {
+                return 0;
+            }
+
+            return confirmed(data) ? Infinity : DEFAULT_TTL;
+        case '/blocks/{block_number_or_hash}':
+            return tip !== undefined && typeof data?.height === 'number' && tip - data.height >= FINALITY_CONFIRMATIONS ? Infinity : DEFAULT_TTL;
+        case '/smart-contracts/{address_hash}':
+            return data?.is_verified ? Infinity : MINUTE;
+        default:
+            return MUTABLE_TTLS[path] ?? DEFAULT_TTL;
+    }
+};
+
+const fileName = (key: string) => `${createHash('sha1').update(key).digest('hex')}.json`;
+
+// Files the cache wrote are named after the hash of the key stored inside them
+const isCacheFile = (directory: string, file: string) => {
+    if (!/^[0-9a-f]{40}\.json$/.test(file)) {
+        return false;
+    }
+
+    try {
+        const { key } = JSON.parse(readFileSync(join(directory, file), 'utf-8'));
+
+        return typeof key === 'string' && fileName(key) === file;
+    } catch {
+        return false;
+    }
+};
+
+export const createResponseCache = ({ directory, now = Date.now }: { directory?: string; now?: () => number } = {}): ResponseCache => {
+    const entries = new Map<string, CacheEntry>();
+    const tips = new Map<string, number>();
+    let hits = 0;
+    let misses = 0;
+
+    const fresh = (entry: CacheEntry) => entry.expiresAt === null || entry.expiresAt > now();
+
+    const readDisk = (key: string): CacheEntry | undefined => {
+        if (!directory) {
+            return undefined;
+        }
+
+        try {
+            const stored = JSON.parse(readFileSync(join(directory, fileName(key)), 'utf-8'));
+
+            return stored.key === key ? { response: stored.response, expiresAt: stored.expiresAt } : undefined;
+        } catch {
+            return undefined;
+        }
+    };
+
+    return {
+        get(key) {
+            let entry = entries.get(key);
+
+            if (!entry) {
+                entry = readDisk(key);
+
+                if (entry) {
+                    entries.set(key, entry);
+                }
+            }
+
+            if (entry && fresh(entry)) {
+                hits++;
+                return entry.response;
+            }
+
+            misses++;
+            return undefined;
+        },
+        set(key, response, ttl) {
+            const entry: CacheEntry = { response, expiresAt: ttl === Infinity ? null : now() + ttl };
+
+            entries.set(key, entry);
+
+            if (directory) {
+                try {
+                    mkdirSync(directory, { recursive: true });
+                    writeFileSync(join(directory, fileName(key)), JSON.stringify({ key, ...entry }));
+                } catch (error) {
+                    debug(`Could not write cache entry to ${directory}`, error);
+                }
+            }
+        },
+        tips,
+        stats: () => {
+            const live = [...entries.values()].filter(fresh);
+
+            return {
+                entries: live.length,
+                immutable: live.filter((entry) => entry.expiresAt === null).length,
+                hits,
+                misses,
+                directory,
+            };
+        },
+        clear() {
+            entries.clear();
+            tips.clear();
+            hits = 0;
+            misses = 0;
+
+            if (directory && existsSync(directory)) {
+                for (const file of readdirSync(directory)) {
+                    if (isCacheFile(directory, file)) {
+                        rmSync(join(directory, file));
+                    }
+                }
+            }
+        },
+    };
+};
+
+export const responseCache = createResponseCache({ directory: CACHE_DIR });
+
+/**
+ * Serves repeated requests to one Blockscout instance from `cache`. Only
+ * successful GETs are stored; errors always go to the network.
+ */
+export const withCache = (api: UseApi, cache: ResponseCache, instance: string): UseApi => middleware(api, async ({ path, method, options }, next) => {
+    const request = resolveRequest(path, options);
+    const key = `${instance} ${fixtureKey(method, request.path, request.query)}`;
+    const cached = method.toLowerCase() === 'get' ? cache.get(key) : undefined;
+
+    if (cached) {
+        debug(`Cache hit: ${key}`);
+        return cached;
+    }
+
+    const response = await next();
+
+    if (path === '/blocks') {
+        const blocks = (response.data as { items?: { height?: unknown }[] } | undefined)?.items ?? [];
+        const heights = blocks.map((block) => block.height).filter((height): height is number => typeof height === 'number');
+
+        if (heights.length > 0) {
+            cache.tips.set(instance, Math.max(cache.tips.get(instance) ?? 0, ...heights));
+        }
+    }
+
+    const ttl = response.status === 200 ? cacheTtl(path, response.data, cache.tips.get(instance)) : 0;
+
+    if (ttl > 0 && method.toLowerCase() === 'get') {
+        debug(`Caching ${key} ${ttl === Infinity ? 'indefinitely' : `for ${ttl / 1000}s`}`);
+        cache.set(key, { status: response.status, data: response.data }, ttl);
+    }
+
+    return response;
+});
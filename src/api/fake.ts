@@ -0,0 +1,56 @@
+import type { Chain } from '../chains';
+import type { RequestScope } from '../tools/context';
+
+// A canned Blockscout answer; an Error is thrown instead, like the client does for failed requests
+export type FakeResponse = { status: number; data: unknown } | Error;
+
+export type FakeApi = {
+    // Keyed by path template, or by `chain:path` for one chain only
+    responses: Record<string, FakeResponse>;
+    // Every request made, in order
+    calls: { path: string; options: unknown }[];
+    // Stands in for getApi from api/index.ts
+    getApi: (chain: Chain, scope?: RequestScope) => (path: string, method: string, options?: unknown) => Promise<{ status: number; data: unknown }>;
+    // Forgets the calls and drops every response added since the fake was created
+    reset: () => void;
+};
+
+/**
+ * Answers Blockscout requests from canned responses, so tools can be tested
+ * without a network. Pass `getApi` to mock.module in place of the real one.
+ */
+export const createFakeApi = (defaults: Record<string, FakeResponse> = {}): FakeApi => {
+    const responses = { ...defaults };
+    const calls: FakeApi['calls'] = [];
+
+    return {
+        responses,
+        calls,
+        getApi: (chain, scope) => async (path, _method, options) => {
+            scope?.signal?.throwIfAborted();
+            scope?.beforeRequest?.();
+            calls.push({ path, options });
+
+            const response = responses[`${chain.name}:${path}`] ?? responses[path];
+
+            if (!response) {
+                throw new Error(`No canned response for ${path}`);
+            }
+
+            if (response instanceof Error) {
+                throw response;
+            }
+
+            return response;
+        },
+        reset() {
+            calls.length = 0;
+
+            for (const path of Object.keys(responses)) {
+                delete responses[path];
+            }
+
+            Object.assign(responses, defaults);
+        },
+    };
+};
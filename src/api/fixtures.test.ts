@@ -0,0 +1,119 @@
+import { afterAll, afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FIXTURES_DIR, startMockServer } from '../mock/server';
+import type { UseApi } from '.';
+import { resolveRequest, withRecording, type Fixture } from './fixtures';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const UNKNOWN = '0x0000000000000000000000000000000000000001';
+
+// Blockscout itself, played back from the repo's recordings
+const upstream = startMockServer({ directory: FIXTURES_DIR, port: 0 });
+
+afterAll(() => upstream.stop(true));
+
+// A plain fetch client that builds URLs like openapi-hooks and throws on non-2xx the same way
+const createClient = (baseUrl: string) => (async (path: string, method: string, options: Parameters<typeof resolveRequest>[1]) => {
+    const request = resolveRequest(path, options);
+    const url = new URL(`${baseUrl}${request.path}`);
+
+    url.search = new URLSearchParams(request.query).toString();
+
+    const response = await fetch(url, { method: method.toUpperCase() });
+
+    if (!response.ok) {
+        throw Object.assign(new Error(`Request failed with status ${response.status}`), { status: response.status });
+    }
+
+    return { status: response.status, data: await response.json() };
+}) as unknown as UseApi;
+
+const send = (api: UseApi, path: string, options: Parameters<typeof resolveRequest>[1] = {}) => (api as any)(path, 'get', options);
+
+let directory: string;
+let spies: ReturnType<typeof spyOn>[] = [];
+
+beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'blockscout-record-'));
+    spies = [spyOn(console, 'log').mockImplementation(() => {}), spyOn(console, 'warn').mockImplementation(() => {})];
+});
+
+afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    spies.forEach((spy) => spy.mockRestore());
+});
+
+const readFixture = (file: string): Fixture => JSON.parse(readFileSync(join(directory, 'ethereum', file), 'utf8'));
+
+describe('withRecording', () => {
+    const record = () => withRecording(createClient(`http://localhost:${upstream.port}/ethereum/api/v2`), join(directory, 'ethereum'));
+
+    test('saves responses under the same file names as the repo fixtures', async () => {
+        const api = record();
+
+        const address = await send(api, '/addresses/{address_hash}', { path: { address_hash: VITALIK } });
+        await send(api, '/blocks', { query: { block_number: 22652538, items_count: 50, type: '' } });
+
+        const recorded = readdirSync(join(directory, 'ethereum')).sort();
+
+        expect(recorded).toEqual([
+            'get_addresses_0xd8da6bf26964af9d7eed9e03e53415d37aa96045_e711b7dc.json',
+            'get_blocks_block_number_22652538_items_count_50_db4144e0.json',
+        ]);
+        expect(recorded.every((file) => readdirSync(join(FIXTURES_DIR, 'ethereum')).includes(file))).toBe(true);
+        expect(readFixture(recorded[0]!)).toEqual({
+            request: { method: 'get', path: `/addresses/${VITALIK}`, query: {} },
+            response: { status: 200, body: address.data },
+        });
+        expect(readFixture(recorded[1]!).request.query).toEqual({ block_number: '22652538', items_count: '50' });
+    });
+
+    test('saves error statuses with the error message as the body and rethrows', async () => {
+        await expect(send(record(), '/addresses/{address_hash}', { path: { address_hash: UNKNOWN } })).rejects.toMatchObject({ status: 404 });
+
+        const [file] = readdirSync(join(directory, 'ethereum'));
+
+        expect(readFixture(file!).response).toEqual({ status: 404, body: { message: 'Request failed with status 404' } });
+    });
+
+    test('saves nothing for failures without a status', async () => {
+        const offline = withRecording((async () => {
+            throw new TypeError('fetch failed');
+        }) as unknown as UseApi, join(directory, 'ethereum'));
+
+        await expect(send(offline, '/stats')).rejects.toThrow('fetch failed');
+        expect(readdirSync(directory)).toEqual([]);
+    });
+
+    test('recordings replay through the mock server', async () => {
+        const api = record();
+        const requests: [string, Parameters<typeof resolveRequest>[1]][] = [
+            ['/addresses/{address_hash}', { path: { address_hash: VITALIK } }],
+            ['/addresses/{address_hash}/token-balances', { path: { address_hash: VITALIK } }],
+            ['/search', { query: { q: 'USDC' } }],
+            ['/stats', {}],
+        ];
+        const live = await Promise.all(requests.map(([path, options]) => send(api, path, options)));
+
+        await expect(send(api, '/addresses/{address_hash}', { path: { address_hash: UNKNOWN } })).rejects.toMatchObject({ status: 404 });
+
+        const replay = startMockServer({ directory, port: 0 });
+
+        try {
+            const replayed = createClient(`http://localhost:${replay.port}/ethereum/api/v2`);
+
+            expect(await Promise.all(requests.map(([path, options]) => send(replayed, path, options)))).toEqual(live);
+
+            // The recorded 404, not the server's own answer for a missing fixture
+            const missing = await fetch(`http://localhost:${replay.port}/ethereum/api/v2/addresses/${UNKNOWN}`);
+
+            expect(missing.status).toBe(404);
+            expect(await missing.json()).toEqual({ message: 'Request failed with status 404' });
+        } finally {
+            replay.stop(true);
+        }
+    });
+});
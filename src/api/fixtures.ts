@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { debug } from '../debug';
+import type { UseApi } from '.';
+import { middleware } from './middleware';
+
+/**
+ * A recorded Blockscout request/response pair. `path` is relative to the
+ * instance's /api/v2/ root with path parameters filled in.
+ */
+export type Fixture = {
+    request: {
+        method: string;
+        path: string;
+        query: Record<string, string>;
+    };
+    response: {
+        status: number;
+        body: unknown;
+    };
+};
+
+// Set BLOCKSCOUT_RECORD=./fixtures to save every request made through getApi
+export const RECORD_DIR = process.env.BLOCKSCOUT_RECORD || undefined;
+
+// Mirrors how openapi-hooks builds the URL: path parameters substituted, empty query values dropped
+export const resolveRequest = (path: string, options: { path?: Record<string, unknown>; query?: Record<string, unknown> } = {}) => {
+    let resolved = path;
+
+    for (const [key, value] of Object.entries(options.path ?? {})) {
+        resolved = resolved.replace(`{${key}}`, String(value));
+    }
+
+    const query: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+        if (value) {
+            query[key] = String(value);
+        }
+    }
+
+    return { path: resolved, query };
+};
+
+export const fixtureKey = (method: string, path: string, query: Record<string, string | null | undefined>) => {
+    const search = new URLSearchParams(
+        Object.entries(query)
+            .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+            .sort(([a], [b]) => a.localeCompare(b))
+    ).toString();
+
+    return `${method.toUpperCase()} ${path}${search ? `?${search}` : ''}`;
+};
+
+const fixtureFileName = (fixture: Fixture) => {
+    const key = fixtureKey(fixture.request.method, fixture.request.path, fixture.request.query);
+    const readable = key.toLowerCase().replace(/[^a-z0-9]+/g, '_').slice(0, 80).replace(/_+$/, '');
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, 8);
+
+    return `${readable}_${hash}.json`;
+};
+
+export const saveFixture = (directory: string, fixture: Fixture) => {
+    mkdirSync(directory, { recursive: true });
+
+    const file = join(directory, fixtureFileName(fixture));
+
+    writeFileSync(file, JSON.stringify(fixture, null, 4) + '\n');
+    debug(`Recorded fixture ${file}`);
+};
+
+// Saves every request/response pair made through `api` as a fixture in `directory`
+export const withRecording = (api: UseApi, directory: string): UseApi => middleware(api, async ({ path, method, options }, next) => {
+    const request = { method, ...resolveRequest(path, options) };
+
+    try {
+        const response = await next();
+
+        saveFixture(directory, { request, response: { status: response.status, body: response.data } });
+
+        return response;
+    } catch (error: any) {
+        if (typeof error?.status === 'number') {
+            saveFixture(directory, { request, response: { status: error.status, body: { message: error.message } } });
+        }
+
+        throw error;
+    }
+});
+
+// Indexes every *.json fixture in a directory by request key
+export const loadFixtures = (directory: string) => {
+    const fixtures = new Map<string, Fixture>();
+
+    for (const file of readdirSync(directory)) {
+        if (!file.endsWith('.json')) {
+            continue;
+        }
+
+        const fixture: Fixture = JSON.parse(readFileSync(join(directory, file), 'utf8'));
+
+        fixtures.set(fixtureKey(fixture.request.method, fixture.request.path, fixture.request.query), fixture);
+    }
+
+    debug(`Loaded ${fixtures.size} fixtures from ${directory}`);
+    return fixtures;
+};
@@ -1,14 +1,69 @@
 import { createFetch } from 'openapi-hooks';
+import { join } from 'path';
 
+import type { Chain } from '../chains';
+import { debug } from '../debug';
+import type { RequestScope } from '../tools/context';
+import { responseCache, withCache } from './cache';
+import { RECORD_DIR, withRecording } from './fixtures';
+import { middleware } from './middleware';
+import { withRetry } from './retry';
+import { withSanitizing } from './sanitize';
 import type { paths } from './schema.gen';
 
-export const baseUrl = new URL('https://eth.blockscout.com/api/v2/');
-
-export const useApi = createFetch<paths>({
+export const createApi = (baseUrl: URL) => createFetch<paths>({
     baseUrl,
     onError(error: { status: number }) {
         if (error.status === 429) {
-            console.error('Rate limit exceeded');
+            debug('Blockscout rate limit exceeded', { baseUrl: baseUrl.href });
         }
     },
 });
+
+export type UseApi = ReturnType<typeof createApi>;
+
+// Applies the current question's request budget and cancellation to every request
+const withScope = (api: UseApi, scope: RequestScope): UseApi => middleware(api, async ({ options }, next) => {
+    const { signal } = scope;
+
+    signal?.throwIfAborted();
+    scope.beforeRequest?.();
+
+    if (!signal) {
+        return next();
+    }
+
+    // Tools may bring their own signal, e.g. a timeout
+    const own = options.fetchOptions?.signal;
+
+    return next({
+        ...options,
+        fetchOptions: { ...options.fetchOptions, signal: own ? AbortSignal.any([signal, own]) : signal },
+    });
+});
+
+const apis = new Map<string, UseApi>();
+
+/**
+ * One client per Blockscout instance. Fixtures are recorded raw, tools only
+ * ever see sanitized data, and cache hits never count against a question's
+ * request budget.
+ */
+export const getApi = (chain: Chain, scope?: RequestScope): UseApi => {
+    let api = apis.get(chain.blockscoutUrl);
+
+    if (!api) {
+        // Retries (and their rate-limit slots) happen below recording, so fixtures hold only final responses
+        api = withRetry(createApi(new URL(chain.blockscoutUrl)));
+
+        if (RECORD_DIR) {
+            api = withRecording(api, join(RECORD_DIR, chain.name));
+        }
+
+        api = withSanitizing(api);
+
+        apis.set(chain.blockscoutUrl, api);
+    }
+
+    return withCache(scope ? withScope(api, scope) : api, responseCache, chain.blockscoutUrl);
+};
@@ -0,0 +1,27 @@
+import type { UseApi } from '.';
+
+// What a request looks like to middleware, whichever path it is for
+export type ApiRequestOptions = {
+    path?: Record<string, unknown>;
+    query?: Record<string, unknown>;
+    fetchOptions?: RequestInit;
+};
+
+export type ApiResponse = { status: number; data: unknown };
+
+export type ApiMiddleware = (
+    request: { path: string; method: string; options: ApiRequestOptions },
+    next: (options?: ApiRequestOptions) => Promise<ApiResponse>
+) => Promise<ApiResponse>;
+
+/**
+ * Wraps `api` so `handle` sees every request. UseApi is typed per path, so
+ * this is the one place that steps outside those types; `next` forwards the
+ * request, optionally with different options.
+ */
+export const middleware = (api: UseApi, handle: ApiMiddleware): UseApi => {
+    const send = api as unknown as (path: string, method: string, options: ApiRequestOptions) => Promise<ApiResponse>;
+
+    return ((path: string, method: string, options: ApiRequestOptions = {}) =>
+        handle({ path, method, options }, (nextOptions = options) => send(path, method, nextOptions))) as unknown as UseApi;
+};
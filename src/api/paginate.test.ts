@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+
+import { paginate, toPage, type FetchPage, type PageParams } from './paginate';
+
+// Serves `pages` in order, recording the params each request was made with
+const pagesOf = (pages: number[][]) => {
+    const requests: (PageParams | undefined)[] = [];
+    const fetchPage: FetchPage<number> = async (pageParams) => {
+        requests.push(pageParams);
+
+        const index = pageParams ? Number(pageParams.page) : 0;
+
+        return {
+            items: pages[index]!,
+            next_page_params: index + 1 < pages.length ? { page: index + 1 } : null
+        };
+    };
+
+    return { fetchPage, requests };
+};
+
+describe('paginate', () => {
+    test('follows next_page_params until the limit is reached', async () => {
+        const { fetchPage, requests } = pagesOf([[1, 2], [3, 4], [5, 6]]);
+
+        const page = await paginate(fetchPage, { limit: 3 });
+
+        expect(page.items).toEqual([1, 2, 3]);
+        expect(page.pages).toBe(2);
+        expect(requests).toEqual([undefined, { page: 1 }]);
+        // The rest of the second page is kept for the next call
+        expect(page.next).toEqual({ buffered: [4], nextPageParams: { page: 2 } });
+    });
+
+    test('continues from buffered items before fetching more', async () => {
+        const { fetchPage, requests } = pagesOf([[1, 2], [3, 4], [5, 6]]);
+
+        const first = await paginate(fetchPage, { limit: 3 });
+        const second = await paginate(fetchPage, { limit: 2, from: first.next });
+
+        expect(second.items).toEqual([4, 5]);
+        expect(requests).toEqual([undefined, { page: 1 }, { page: 2 }]);
+        expect(second.next).toEqual({ buffered: [6], nextPageParams: null });
+    });
+
+    test('serves a request entirely from the buffer without fetching', async () => {
+        const { fetchPage, requests } = pagesOf([[1, 2, 3, 4]]);
+
+        const first = await paginate(fetchPage, { limit: 1 });
+        const second = await paginate(fetchPage, { limit: 2, from: first.next });
+
+        expect(second).toEqual({ items: [2, 3], pages: 0, next: { buffered: [4], nextPageParams: null } });
+        expect(requests).toHaveLength(1);
+    });
+
+    test('stops when next_page_params is null and reports no next cursor', async () => {
+        const { fetchPage, requests } = pagesOf([[1, 2], [3]]);
+
+        const page = await paginate(fetchPage, { limit: 10 });
+
+        expect(page).toEqual({ items: [1, 2, 3], pages: 2 });
+        expect(requests).toHaveLength(2);
+    });
+
+    test('stops after maxPages even when the limit is not reached', async () => {
+        const { fetchPage, requests } = pagesOf([[1], [2], [3], [4]]);
+
+        const page = await paginate(fetchPage, { limit: 10, maxPages: 2 });
+
+        expect(page.items).toEqual([1, 2]);
+        expect(requests).toHaveLength(2);
+        expect(page.next).toEqual({ buffered: [], nextPageParams: { page: 2 } });
+    });
+});
+
+describe('toPage', () => {
+    test('unwraps a 200 response', () => {
+        expect(toPage({ status: 200, data: { items: [1], next_page_params: null } }, 'numbers')).toEqual({ items: [1], next_page_params: null });
+    });
+
+    test('throws on any other status', () => {
+        expect(() => toPage({ status: 500, data: {} }, 'numbers')).toThrow('Fetching numbers failed with status 500');
+    });
+});
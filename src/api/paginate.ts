@@ -0,0 +1,75 @@
+import { debug } from '../debug';
+
+export type PageParams = Record<string, unknown>;
+
+// Shape shared by every Blockscout list endpoint
+export type Page<T> = {
+    items: T[];
+    next_page_params?: PageParams | null;
+};
+
+export type FetchPage<T> = (pageParams: PageParams | undefined) => Promise<Page<T>>;
+
+/**
+ * Where a listing left off: items already fetched but not yet returned, and
+ * the params of the next page (`undefined` before the first page was fetched,
+ * `null` once Blockscout reported no further pages).
+ */
+export type PageCursor<T> = {
+    buffered: T[];
+    nextPageParams?: PageParams | null;
+};
+
+export type PaginateOptions<T> = {
+    // Number of items to collect
+    limit: number;
+    // Maximum number of pages to request in this call
+    maxPages?: number;
+    // Continue from an earlier call instead of the first page
+    from?: PageCursor<T>;
+};
+
+export type Paginated<T> = {
+    items: T[];
+    pages: number;
+    // Absent when the listing is exhausted
+    next?: PageCursor<T>;
+};
+
+export const DEFAULT_MAX_PAGES = 5;
+
+// Follows next_page_params until `limit` items are collected, the page budget is spent or the list ends
+export async function paginate<T>(fetchPage: FetchPage<T>, { limit, maxPages = DEFAULT_MAX_PAGES, from }: PaginateOptions<T>): Promise<Paginated<T>> {
+    const items = [...(from?.buffered ?? [])];
+    let nextPageParams = from?.nextPageParams;
+    let pages = 0;
+
+    while (items.length < limit && nextPageParams !== null && pages < maxPages) {
+        const page = await fetchPage(nextPageParams);
+        pages++;
+
+        items.push(...page.items);
+        nextPageParams = page.next_page_params ?? null;
+        debug(`Fetched page ${pages}`, { items: page.items.length, nextPageParams });
+    }
+
+    const buffered = items.splice(limit);
+
+    if (buffered.length === 0 && nextPageParams === null) {
+        return { items, pages };
+    }
+
+    return { items, pages, next: { buffered, nextPageParams } };
+}
+
+// Unwraps a useApi response into a page, throwing on anything but 200
+export const toPage = <T>(response: { status: number; data: any }, what: string): Page<T> => {
+    debug('API response received', { status: response.status });
+
+    if (response.status !== 200) {
+        debug(`API error: status ${response.status}`);
+        throw new Error(`Fetching ${what} failed with status ${response.status}`);
+    }
+
+    return response.data;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { UseApi } from '.';
+import { backoffMs, createRateLimiter, parseMaxRetries, retryAfterMs, withRetry } from './retry';
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`Request failed with status ${status}`), { status, headers: new Headers(headers) });
+
+// A fake client that fails with each of `failures` in turn, then succeeds
+const flaky = (failures: unknown[]) => {
+    const calls: number[] = [];
+    const api = (async () => {
+        calls.push(Date.now());
+
+        const failure = failures.shift();
+
+        if (failure) {
+            throw failure;
+        }
+
+        return { status: 200, data: { ok: true } };
+    }) as unknown as UseApi;
+
+    return { api, calls };
+};
+
+const fast = { baseDelayMs: 1, maxDelayMs: 50, requestsPerSecond: 1000 };
+
+const request = (api: UseApi, options?: unknown) => (api as any)('/stats', 'get', options);
+
+describe('withRetry', () => {
+    test('retries 429, 5xx and network errors until the request succeeds', async () => {
+        const { api, calls } = flaky([apiError(429), apiError(503), new TypeError('fetch failed')]);
+
+        expect(await request(withRetry(api, { ...fast, maxRetries: 3 }))).toEqual({ status: 200, data: { ok: true } });
+        expect(calls).toHaveLength(4);
+    });
+
+    test('gives up after maxRetries and rethrows the last error', async () => {
+        const { api, calls } = flaky([apiError(500), apiError(502), apiError(504)]);
+
+        await expect(request(withRetry(api, { ...fast, maxRetries: 2 }))).rejects.toMatchObject({ status: 504 });
+        expect(calls).toHaveLength(3);
+    });
+
+    test('does not retry client errors', async () => {
+        const { api, calls } = flaky([apiError(404)]);
+
+        await expect(request(withRetry(api, { ...fast, maxRetries: 3 }))).rejects.toMatchObject({ status: 404 });
+        expect(calls).toHaveLength(1);
+    });
+
+    test('honours Retry-After', async () => {
+        const { api, calls } = flaky([apiError(429, { 'Retry-After': '0.05' })]);
+
+        await request(withRetry(api, { ...fast, maxDelayMs: 1000, maxRetries: 1 }));
+
+        expect(calls[1]! - calls[0]!).toBeGreaterThanOrEqual(45);
+    });
+
+    test('stops waiting when the request is aborted', async () => {
+        const { api, calls } = flaky([apiError(503)]);
+        const controller = new AbortController();
+        const pending = request(withRetry(api, { ...fast, baseDelayMs: 1000, maxDelayMs: 1000, maxRetries: 3 }), { fetchOptions: { signal: controller.signal } });
+
+        controller.abort();
+
+        await expect(pending).rejects.toThrow();
+        expect(calls).toHaveLength(1);
+    });
+});
+
+test('createRateLimiter spaces requests out', async () => {
+    const limiter = createRateLimiter(50);
+    const started = Date.now();
+
+    for (let index = 0; index < 5; index++) {
+        await limiter.acquire();
+    }
+
+    // Five slots 20ms apart: the first is immediate
+    expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+});
+
+test('retryAfterMs reads seconds and HTTP dates', () => {
+    const now = Date.parse('2025-06-01T12:00:00Z');
+
+    expect(retryAfterMs(apiError(429, { 'Retry-After': '2' }), now)).toBe(2000);
+    expect(retryAfterMs(apiError(429, { 'Retry-After': 'Sun, 01 Jun 2025 12:00:05 GMT' }), now)).toBe(5000);
+    expect(retryAfterMs(apiError(429), now)).toBeUndefined();
+    expect(retryAfterMs({ response: { headers: new Headers({ 'retry-after': '1' }) } }, now)).toBe(1000);
+});
+
+test('backoffMs doubles per attempt with jitter and a cap', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(backoffMs(0, options, () => 0)).toBe(50);
+    expect(backoffMs(0, options, () => 1)).toBe(100);
+    expect(backoffMs(2, options, () => 1)).toBe(400);
+    expect(backoffMs(10, options, () => 1)).toBe(1000);
+});
+
+test('parseMaxRetries accepts whole numbers and falls back to 3', () => {
+    expect(parseMaxRetries(undefined)).toBe(3);
+    expect(parseMaxRetries('')).toBe(3);
+    expect(parseMaxRetries('0')).toBe(0);
+    expect(parseMaxRetries('5')).toBe(5);
+    expect(parseMaxRetries('many')).toBe(3);
+    expect(parseMaxRetries('-1')).toBe(3);
+    expect(parseMaxRetries('1.5')).toBe(3);
+});
@@ -0,0 +1,143 @@
+import { debug } from '../debug';
+import type { UseApi } from '.';
+import { middleware } from './middleware';
+
+export type RetryOptions = {
+    // Attempts after the first one (BLOCKSCOUT_MAX_RETRIES)
+    maxRetries: number;
+    // Backoff before the first retry; doubles on every further attempt
+    baseDelayMs: number;
+    // Upper bound for a single wait, Retry-After included
+    maxDelayMs: number;
+    // Client-side limit per Blockscout instance (BLOCKSCOUT_RPS)
+    requestsPerSecond: number;
+};
+
+// A whole number of retries, 0 included; anything else falls back to 3 rather than retrying forever on NaN
+export const parseMaxRetries = (value: string | undefined) => {
+    const retries = Number(value || 3);
+
+    return Number.isInteger(retries) && retries >= 0 ? retries : 3;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: parseMaxRetries(process.env.BLOCKSCOUT_MAX_RETRIES),
+    baseDelayMs: 500,
+    maxDelayMs: 10_000,
+    requestsPerSecond: Number(process.env.BLOCKSCOUT_RPS) || 5,
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export type RateLimiter = {
+    // Waits for the next free request slot
+    acquire: (signal?: AbortSignal) => Promise<void>;
+};
+
+// Spaces requests evenly so no more than `requestsPerSecond` start in any second
+export const createRateLimiter = (requestsPerSecond: number): RateLimiter => {
+    const interval = 1000 / requestsPerSecond;
+    let nextSlot = 0;
+
+    return {
+        async acquire(signal) {
+            const now = Date.now();
+            const slot = Math.max(now, nextSlot);
+
+            nextSlot = slot + interval;
+
+            if (slot > now) {
+                await sleep(slot - now, signal);
+            }
+        },
+    };
+};
+
+// 429 and 5xx responses, and requests that never got a response
+const isRetryable = (error: any) => {
+    if (error?.name === 'AbortError' || error?.name === 'TimeoutError') {
+        return false;
+    }
+
+    const status = error?.status;
+
+    return typeof status !== 'number' || status === 429 || status >= 500;
+};
+
+// Retry-After as seconds or an HTTP date, wherever the client put the response headers
+export const retryAfterMs = (error: any, now = Date.now()) => {
+    const headers = error?.headers ?? error?.response?.headers;
+    const value: unknown = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+
+    if (typeof value !== 'string' || !value.trim()) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Exponential backoff with jitter: somewhere between half and all of base * 2^attempt
+export const backoffMs = (attempt: number, { baseDelayMs, maxDelayMs }: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>, random = Math.random) =>
+    Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + random() / 2);
+
+/**
+ * Rate-limits every request made through `api` and retries the ones that
+ * failed with 429, 5xx or a network error, honouring Retry-After.
+ */
+export const withRetry = (api: UseApi, options: Partial<RetryOptions> = {}): UseApi => {
+    const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    const limiter = createRateLimiter(settings.requestsPerSecond);
+
+    return middleware(api, async ({ path, method, options: requestOptions }, next) => {
+        const signal = requestOptions.fetchOptions?.signal ?? undefined;
+
+        for (let attempt = 0; ; attempt++) {
+            await limiter.acquire(signal);
+
+            try {
+                const response = await next();
+
+                if (attempt > 0) {
+                    debug(`${method.toUpperCase()} ${path} succeeded after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`);
+                }
+
+                return response;
+            } catch (error: any) {
+                if (attempt >= settings.maxRetries || !isRetryable(error) || signal?.aborted) {
+                    if (attempt > 0) {
+                        debug(`${method.toUpperCase()} ${path} failed after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`, error);
+                    }
+
+                    throw error;
+                }
+
+                const delay = Math.min(settings.maxDelayMs, retryAfterMs(error) ?? backoffMs(attempt, settings));
+
+                debug(`Retrying ${method.toUpperCase()} ${path} (retry ${attempt + 1}/${settings.maxRetries}) in ${Math.round(delay)}ms after ${error?.status ? `status ${error.status}` : error?.message ?? 'a network error'}`);
+                await sleep(delay, signal);
+            }
+        }
+    });
+};
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+
+import { sanitizeText } from '../ansi';
+import { renderMarkdown } from '../markdown';
+import { tabulate } from '../tabulate';
+import type { UseApi } from '.';
+import { sanitizeValue, withSanitizing } from './sanitize';
+
+// Anything a terminal would interpret rather than print
+const TERMINAL_CONTROL = /[\x00-\x08\x0b-\x1f\x7f-\x9f\u202a-\u202e\u2066-\u2069]/;
+
+// Token names an attacker could deploy, and what should be left of them
+const MALICIOUS_NAMES: [string, string, string][] = [
+    ['color change', '\x1b[31mUSDC\x1b[0m', 'USDC'],
+    ['screen clear and cursor home', 'Tether\x1b[2J\x1b[H', 'Tether'],
+    ['full terminal reset', 'Wrapped Ether\x1bc', 'Wrapped Ether'],
+    ['window title rewrite', '\x1b]0;rm -rf ~\x07DAI', 'DAI'],
+    ['unterminated title rewrite', 'DAI\x1b]2;owned', 'DAI'],
+    ['OSC 8 phishing hyperlink', '\x1b]8;;https://evil.example\x1b\\Claim airdrop\x1b]8;;\x1b\\', 'Claim airdrop'],
+    ['OSC 52 clipboard write', 'Airdrop\x1b]52;c;MHhkZWFkYmVlZg==\x07', 'Airdrop'],
+    ['device control string', 'UNI\x1bP+q544e\x1b\\', 'UNI'],
+    ['8-bit CSI', 'LINK\x9b2J', 'LINK'],
+    ['8-bit OSC', '\x9d0;pwned\x9cPEPE', 'PEPE'],
+    ['carriage return overwrite', 'Scam Token\rUSD Coin', 'Scam TokenUSD Coin'],
+    ['backspace overwrite', 'SCAM\b\b\b\bUSDC', 'SCAMUSDC'],
+    ['bell and null bytes', 'Ding\x07\x07\x00', 'Ding'],
+    ['bidi override', 'USDC\u202eTDSU', 'USDCTDSU'],
+    ['bidi isolate', '\u2066ETH\u2069', 'ETH'],
+    ['bare escape at the end', 'Trailing\x1b', 'Trailing'],
+];
+
+describe('sanitizeText', () => {
+    for (const [name, input, expected] of MALICIOUS_NAMES) {
+        test(`neutralises ${name}`, () => {
+            const output = sanitizeText(input);
+
+            expect(output).toBe(expected);
+            expect(output).not.toMatch(TERMINAL_CONTROL);
+        });
+    }
+
+    test('keeps ordinary text, newlines and non-Latin names', () => {
+        const text = 'Ether 🦄 — Ünïcödé 代币\n\tline two [0x1] (~$1.00)';
+
+        expect(sanitizeText(text)).toBe(text);
+    });
+});
+
+describe('withSanitizing', () => {
+    const rawResponse = {
+        items: [
+            {
+                token: { name: '\x1b]0;hacked\x07Shiba\x1b[5m', symbol: 'SHIB\r\x1b[2K', decimals: '18', exchange_rate: null },
+                value: '1000',
+            },
+        ],
+        ens_domain_name: 'vitalik\x1b[8m.eth',
+        next_page_params: null,
+    };
+
+    const api = withSanitizing((async () => ({ status: 200, data: rawResponse })) as unknown as UseApi);
+
+    test('cleans every nested string and leaves other values alone', async () => {
+        const response = await (api as any)('/addresses/{address_hash}/token-balances', 'get', {});
+
+        expect(response.status).toBe(200);
+        expect(response.data).toEqual({
+            items: [{ token: { name: 'Shiba', symbol: 'SHIB', decimals: '18', exchange_rate: null }, value: '1000' }],
+            ens_domain_name: 'vitalik.eth',
+            next_page_params: null,
+        });
+    });
+
+    test('nothing printable from a malicious response can drive the terminal', async () => {
+        const response = await (api as any)('/addresses/{address_hash}/token-balances', 'get', {});
+        const { rows = [] } = tabulate(response.data.items);
+
+        for (const cell of rows.flatMap((row) => [...Object.keys(row), ...Object.values(row)])) {
+            expect(String(cell)).not.toMatch(TERMINAL_CONTROL);
+        }
+
+        expect(JSON.stringify(response.data)).not.toMatch(/\\u001b|\\r|\\u0007/);
+    });
+
+    test('propagates API errors unchanged', async () => {
+        const failing = withSanitizing((async () => { throw Object.assign(new Error('Not Found'), { status: 404 }); }) as unknown as UseApi);
+
+        await expect((failing as any)('/tokens/{address_hash}', 'get', {})).rejects.toMatchObject({ status: 404 });
+    });
+});
+
+test('sanitizeValue also cleans object keys', () => {
+    expect(sanitizeValue({ 'name\x1b[31m': ['a\x07', 1, true, null] })).toEqual({ name: ['a', 1, true, null] });
+});
+
+test('renderMarkdown drops escape sequences echoed back by the model', () => {
+    const rendered = renderMarkdown('The token is **\x1b]0;pwned\x07USDC\x1b[2J**\r', { color: false });
+
+    expect(rendered).toBe('The token is USDC');
+});
@@ -0,0 +1,27 @@
+import { sanitizeText } from '../ansi';
+import type { UseApi } from '.';
+import { middleware } from './middleware';
+
+// Sanitizes every string (and object key) in a Blockscout response
+export const sanitizeValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+        return sanitizeText(value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(sanitizeValue);
+    }
+
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [sanitizeText(key), sanitizeValue(entry)]));
+    }
+
+    return value;
+};
+
+// Token names, symbols, ENS names and metadata are attacker-controlled, so clean them before tools see them
+export const withSanitizing = (api: UseApi): UseApi => middleware(api, async (_request, next) => {
+    const response = await next();
+
+    return { ...response, data: sanitizeValue(response.data) };
+});
@@ -0,0 +1,104 @@
+/**
+ * Limits on the work the assistant may do for a single question. Each can be
+ * set through the environment variable named next to it.
+ */
+export type Budget = {
+    // Model turns that may call tools (MAX_ROUNDS)
+    maxRounds: number;
+    // Tool calls across all rounds (MAX_TOOL_CALLS)
+    maxToolCalls: number;
+    // Blockscout requests made by those tools (MAX_API_REQUESTS)
+    maxApiRequests: number;
+    // Wall-clock time for tool calls and Blockscout requests (QUESTION_TIMEOUT_SECONDS)
+    timeoutMs: number;
+    // Extra time the model gets for its final answer once that has passed (FINAL_ANSWER_SECONDS)
+    finalAnswerMs: number;
+};
+
+export const DEFAULT_BUDGET: Budget = {
+    maxRounds: Number(process.env.MAX_ROUNDS) || 5,
+    maxToolCalls: Number(process.env.MAX_TOOL_CALLS) || 20,
+    maxApiRequests: Number(process.env.MAX_API_REQUESTS) || 50,
+    timeoutMs: (Number(process.env.QUESTION_TIMEOUT_SECONDS) || 120) * 1000,
+    finalAnswerMs: (Number(process.env.FINAL_ANSWER_SECONDS) || 30) * 1000,
+};
+
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export type BudgetTracker = {
+    used: { rounds: number; toolCalls: number; apiRequests: number };
+    // Why no more work may be done, or undefined while there is budget left
+    exhausted: () => string | undefined;
+    // Starts a round of tool calls and returns how many of `wanted` may run
+    startRound: (wanted: number) => number;
+    // Counts one Blockscout request; throws once requests have run out
+    countApiRequest: () => void;
+    // Aborts at the time limit, cutting off Blockscout requests still running then
+    deadline: AbortSignal;
+    // Aborts once the final answer's extra time has passed too, cutting off the model
+    finalDeadline: AbortSignal;
+    // Why tools may no longer run
+    timeUp: () => string;
+    // Why the question ended without an answer
+    noAnswer: () => string;
+};
+
+// A zero timeout would only abort on the next tick
+const abortAfter = (ms: number) => ms > 0 ? AbortSignal.timeout(ms) : AbortSignal.abort();
+
+const formatDuration = (ms: number) => ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+
+export const createBudgetTracker = (budget: Budget): BudgetTracker => {
+    const deadline = abortAfter(budget.timeoutMs);
+    const finalDeadline = abortAfter(budget.timeoutMs + budget.finalAnswerMs);
+    const used = { rounds: 0, toolCalls: 0, apiRequests: 0 };
+
+    const timeUp = () => `the ${formatDuration(budget.timeoutMs)} time limit for this question has passed`;
+
+    return {
+        used,
+        exhausted() {
+            if (deadline.aborted) {
+                return timeUp();
+            }
+
+            if (used.rounds >= budget.maxRounds) {
+                return `the limit of ${budget.maxRounds} tool rounds per question was reached`;
+            }
+
+            if (used.toolCalls >= budget.maxToolCalls) {
+                return `the limit of ${budget.maxToolCalls} tool calls per question was reached`;
+            }
+
+            if (used.apiRequests >= budget.maxApiRequests) {
+                return `the limit of ${budget.maxApiRequests} Blockscout requests per question was reached`;
+            }
+
+            return undefined;
+        },
+        startRound(wanted) {
+            const allowed = Math.max(0, Math.min(wanted, budget.maxToolCalls - used.toolCalls));
+
+            used.rounds++;
+            used.toolCalls += allowed;
+
+            return allowed;
+        },
+        countApiRequest() {
+            if (used.apiRequests >= budget.maxApiRequests) {
+                throw new BudgetExceededError(`Not requested: the limit of ${budget.maxApiRequests} Blockscout requests per question was reached`);
+            }
+
+            used.apiRequests++;
+        },
+        deadline,
+        finalDeadline,
+        timeUp,
+        noAnswer: () => `${timeUp()} and no final answer came within the ${formatDuration(budget.finalAnswerMs)} after it`,
+    };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+
+import { explorerUrl, findChain, parseChainRegistry } from './chains';
+
+const ethereum = { name: 'ethereum', chainId: 1, blockscoutUrl: 'https://eth.blockscout.com/api/v2/', nativeCurrency: { symbol: 'ETH', decimals: 18 } };
+const gnosis = { name: 'Gnosis', chainId: 100, blockscoutUrl: 'https://gnosis.blockscout.com/api/v2/', nativeCurrency: { symbol: 'XDAI', decimals: 18 } };
+
+describe('parseChainRegistry', () => {
+    test('defaults to the first chain', () => {
+        expect(parseChainRegistry({ chains: [ethereum, gnosis] })).toEqual({ chains: [ethereum, gnosis], defaultChain: ethereum });
+    });
+
+    test('accepts the default chain by name or chain id', () => {
+        expect(parseChainRegistry({ chains: [ethereum, gnosis], defaultChain: 'gnosis' }).defaultChain).toBe(gnosis);
+        expect(parseChainRegistry({ chains: [ethereum, gnosis], defaultChain: 100 }).defaultChain).toBe(gnosis);
+    });
+
+    test('rejects configs without chains', () => {
+        expect(() => parseChainRegistry({}, 'chains.json')).toThrow('chains.json does not list any chains');
+        expect(() => parseChainRegistry({ chains: [] })).toThrow('chain config does not list any chains');
+        expect(() => parseChainRegistry(null)).toThrow('does not list any chains');
+    });
+
+    test('rejects invalid chain entries', () => {
+        const { chainId, ...withoutId } = ethereum;
+
+        expect(() => parseChainRegistry({ chains: [withoutId] })).toThrow(`chain config has an invalid chain entry: ${JSON.stringify(withoutId)}`);
+        expect(() => parseChainRegistry({ chains: [{ ...ethereum, chainId: String(chainId) }] })).toThrow('invalid chain entry');
+        expect(() => parseChainRegistry({ chains: [{ ...ethereum, nativeCurrency: { symbol: 'ETH' } }] })).toThrow('invalid chain entry');
+    });
+
+    test('rejects an unknown default chain', () => {
+        expect(() => parseChainRegistry({ chains: [ethereum], defaultChain: 'base' })).toThrow('chain config names unknown default chain "base"');
+    });
+});
+
+describe('findChain', () => {
+    const registry = { chains: [ethereum, gnosis] };
+
+    test('finds chains by name, ignoring case and surrounding spaces', () => {
+        expect(findChain(registry, 'ETHEREUM')).toBe(ethereum);
+        expect(findChain(registry, ' gnosis ')).toBe(gnosis);
+    });
+
+    test('finds chains by chain id', () => {
+        expect(findChain(registry, '100')).toBe(gnosis);
+    });
+
+    test('returns undefined for unknown chains', () => {
+        expect(findChain(registry, 'base')).toBeUndefined();
+        expect(findChain(registry, '8453')).toBeUndefined();
+    });
+});
+
+test('explorerUrl links pages next to the API root', () => {
+    expect(explorerUrl(ethereum, 'tx/0xabc')).toBe('https://eth.blockscout.com/tx/0xabc');
+    expect(explorerUrl({ ...ethereum, blockscoutUrl: 'https://explorer.example.com/chain/api/v2/' }, 'address/0x1')).toBe('https://explorer.example.com/chain/address/0x1');
+});
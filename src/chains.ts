@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { debug } from './debug';
+
+export type Chain = {
+    name: string;
+    chainId: number;
+    // Blockscout API v2 root, e.g. https://eth.blockscout.com/api/v2/
+    blockscoutUrl: string;
+    nativeCurrency: {
+        symbol: string;
+        decimals: number;
+    };
+};
+
+export type ChainRegistry = {
+    chains: Chain[];
+    defaultChain: Chain;
+};
+
+// Override with CHAINS_CONFIG=/path/to/chains.json
+export const CHAINS_CONFIG = process.env.CHAINS_CONFIG || join(import.meta.dir, '..', 'chains.json');
+
+const isChain = (value: any): value is Chain =>
+    typeof value?.name === 'string' &&
+    typeof value.chainId === 'number' &&
+    typeof value.blockscoutUrl === 'string' &&
+    typeof value.nativeCurrency?.symbol === 'string' &&
+    typeof value.nativeCurrency.decimals === 'number';
+
+export const parseChainRegistry = (config: any, source = 'chain config'): ChainRegistry => {
+    const chains: unknown[] = Array.isArray(config?.chains) ? config.chains : [];
+
+    if (chains.length === 0) {
+        throw new Error(`${source} does not list any chains`);
+    }
+
+    for (const chain of chains) {
+        if (!isChain(chain)) {
+            throw new Error(`${source} has an invalid chain entry: ${JSON.stringify(chain)}`);
+        }
+    }
+
+    const registry = { chains: chains as Chain[] };
+    const defaultChain = config.defaultChain === undefined
+        ? registry.chains[0]
+        : findChain(registry, String(config.defaultChain));
+
+    if (!defaultChain) {
+        throw new Error(`${source} names unknown default chain "${config.defaultChain}"`);
+    }
+
+    return { ...registry, defaultChain };
+};
+
+export const loadChainRegistry = (path = CHAINS_CONFIG): ChainRegistry => {
+    debug(`Loading chain registry from ${path}`);
+
+    return parseChainRegistry(JSON.parse(readFileSync(path, 'utf8')), path);
+};
+
+// Looks a chain up by name (case-insensitive) or chain id
+export const findChain = ({ chains }: Pick<ChainRegistry, 'chains'>, nameOrId: string) => {
+    const needle = nameOrId.trim().toLowerCase();
+
+    return chains.find((chain) => chain.name.toLowerCase() === needle || String(chain.chainId) === needle);
+};
+
+// Link to a page of the chain's Blockscout explorer, e.g. explorerUrl(chain, 'tx/0x...')
+export const explorerUrl = (chain: Chain, path: string) =>
+    new URL(path, new URL('../../', chain.blockscoutUrl)).toString();
+
+export const chainRegistry = loadChainRegistry();
@@ -0,0 +1,197 @@
+import { BudgetExceededError, createBudgetTracker, DEFAULT_BUDGET, type Budget } from './budget';
+import { mapConcurrent } from './concurrency';
+import { debug } from './debug';
+import { markUntrusted } from './injection';
+import { createMarkdownStream, renderMarkdown } from './markdown';
+import type { ChatSession, ToolCall, ToolResult } from './providers';
+import { executeFunction, type ToolContext } from './tools';
+
+export type ToolCallRecord = {
+    name: string;
+    args: ToolCall['args'];
+    result: unknown;
+    // Wall-clock time the tool took, including its Blockscout requests
+    durationMs: number;
+};
+
+// How many tool calls from one model turn may run at once (TOOL_CONCURRENCY)
+export const DEFAULT_TOOL_CONCURRENCY = Number(process.env.TOOL_CONCURRENCY) || 4;
+
+export type RunChatOptions = {
+    // Where assistant text (rendered from Markdown) and status lines go (default: console.log)
+    print?: (message: string) => void;
+    // Streams assistant text through this as it arrives instead of printing each reply whole
+    write?: (text: string) => void;
+    // Called for every executed tool call, in the order the model made them
+    onToolCall?: (record: ToolCallRecord) => void;
+    // Maximum number of tool calls executed concurrently
+    concurrency?: number;
+    // Overrides for the per-question limits in DEFAULT_BUDGET
+    budget?: Partial<Budget>;
+    // Cancels the question: the pending model request and Blockscout requests are aborted
+    signal?: AbortSignal;
+};
+
+// Sent instead of a result for calls the budget no longer allows
+const budgetNotice = (reason: string) =>
+    `⛔ Not executed: ${reason}. Do not call any more tools; answer the user now with the data you already have and say that the answer may be incomplete.`;
+
+export async function runChat(session: ChatSession, context: ToolContext, input: string, { print = console.log, write, onToolCall, concurrency = DEFAULT_TOOL_CONCURRENCY, budget, signal }: RunChatOptions = {}) {
+    // Sends to the model, streaming the reply's text when `write` is set
+    const send = async (message: string | ToolResult[]) => {
+        if (!write) {
+            return session.send(message, { signal: modelSignal });
+        }
+
+        const stream = createMarkdownStream(write);
+        let started = false;
+
+        try {
+            return await session.send(message, {
+                signal: modelSignal,
+                onText(delta) {
+                    if (!started) {
+                        write('🤖 Assistant:\n');
+                        started = true;
+                    }
+
+                    stream.push(delta);
+                }
+            });
+        } finally {
+            stream.end();
+        }
+    };
+
+    // Work done for this question is counted against the budget, Blockscout requests included
+    const tracker = createBudgetTracker({ ...DEFAULT_BUDGET, ...budget });
+    // Blockscout requests stop when the user cancels or the time limit passes
+    const requestSignal = signal ? AbortSignal.any([signal, tracker.deadline]) : tracker.deadline;
+    // The model may still write a final answer after the time limit, but not indefinitely
+    const modelSignal = signal ? AbortSignal.any([signal, tracker.finalDeadline]) : tracker.finalDeadline;
+    context.scope.beforeRequest = tracker.countApiRequest;
+    context.scope.signal = requestSignal;
+
+    // A cancelled or failed question is removed from the history as a whole
+    const historyLength = session.getHistory().length;
+
+    // The model only ever sees tool output inside an untrusted-data envelope
+    const toToolResult = (call: ToolCall, record: ToolCallRecord): ToolResult => {
+        onToolCall?.(record);
+
+        const wrapped = markUntrusted(call.name, record.result);
+
+        if (wrapped.suspicious) {
+            debug(`Suspicious strings in ${call.name} result`, wrapped.suspicious);
+            print(`⚠️  ${call.name} returned text that reads like instructions to the assistant (${wrapped.suspicious.map((entry) => entry.path).join(', ')}); it was flagged as untrusted.`);
+        }
+
+        return { id: call.id, name: call.name, result: wrapped };
+    };
+
+    try {
+        debug('Starting runChat', { input, history: session.getHistory() });
+        let turn = await send(input);
+        debug('Initial response received', {
+            hasFunctionCalls: turn.toolCalls.length > 0,
+            hasText: !!turn.text,
+            response: turn
+        });
+
+        // Set once the model has been told to answer without more tools
+        let wrappingUp = false;
+        debug('Starting function calling loop');
+
+        while (true) {
+            if (turn.text && !write) {
+                print(`🤖 Assistant:\n${renderMarkdown(turn.text)}`);
+            }
+
+            if (turn.toolCalls.length === 0) {
+                if (turn.text) {
+                    return turn.text;
+                }
+
+                debug('No text found, ending function calling loop');
+                return;
+            }
+
+            if (wrappingUp) {
+                debug('Model kept calling tools after the budget ran out', turn.toolCalls);
+
+                if (turn.text) {
+                    return turn.text;
+                }
+
+                print(`No response from AI`);
+                return;
+            }
+
+            const exhausted = tracker.exhausted();
+            const allowed = exhausted ? 0 : tracker.startRound(turn.toolCalls.length);
+
+            // Calls still running at the time limit were cut off, so their results are only abort errors
+            const cutOff = new Set<ToolCall>();
+
+            // Calls in one turn don't depend on each other, so they can run side by side
+            const records = await mapConcurrent(turn.toolCalls.slice(0, allowed), concurrency, async (call): Promise<ToolCallRecord> => {
+                const started = performance.now();
+                const result = await executeFunction(call, context);
+                const durationMs = Math.round(performance.now() - started);
+
+                debug(`${call.name} finished in ${durationMs}ms`);
+
+                if (tracker.deadline.aborted) {
+                    cutOff.add(call);
+                }
+
+                return { name: call.name, args: call.args, result, durationMs };
+            });
+
+            const stopReason = allowed < turn.toolCalls.length || cutOff.size > 0 ? exhausted ?? tracker.exhausted() : undefined;
+
+            if (stopReason) {
+                debug('Budget exhausted, asking for a final answer', { reason: stopReason, used: tracker.used });
+                print(`⏳ Stopping tool calls: ${stopReason}. Asking for an answer with the data gathered so far.`);
+                wrappingUp = true;
+            }
+
+            // Every call gets a result, so the history stays valid for the provider
+            const callResults = turn.toolCalls.map((call, index): ToolResult => {
+                const record = records[index];
+
+                if (record && !cutOff.has(call)) {
+                    return toToolResult(call, record);
+                }
+
+                if (record) {
+                    onToolCall?.(record);
+                }
+
+                return { id: call.id, name: call.name, result: budgetNotice(stopReason!) };
+            });
+
+            // Tools report cancelled requests as error results; don't send those to the model
+            signal?.throwIfAborted();
+            turn = await send(callResults);
+        }
+    } catch (error) {
+        session.rewind(historyLength);
+
+        if (signal?.aborted) {
+            debug('Question cancelled', signal.reason);
+            print('⏹️  Cancelled');
+            return;
+        }
+
+        if (tracker.finalDeadline.aborted) {
+            debug('Question timed out', { used: tracker.used });
+            throw new BudgetExceededError(`No answer: ${tracker.noAnswer()}`);
+        }
+
+        throw error;
+    } finally {
+        context.scope.beforeRequest = undefined;
+        context.scope.signal = undefined;
+    }
+}
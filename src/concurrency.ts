@@ -0,0 +1,17 @@
+// Runs `task` over `items` with at most `limit` running at once; results keep the order of `items`
+export const mapConcurrent = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+
+            results[index] = await task(items[index]!, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+
+    return results;
+};
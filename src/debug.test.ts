@@ -0,0 +1,30 @@
+import { afterEach, expect, spyOn, test } from 'bun:test';
+
+import { debug, setDebug } from './debug';
+
+afterEach(() => {
+    setDebug(false);
+});
+
+test('debug writes to stderr and leaves stdout alone', () => {
+    const log = spyOn(console, 'log').mockImplementation(() => {});
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+
+    setDebug(true);
+    debug('Fetching', { page: 1 });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error.mock.calls).toEqual([['🐛 DEBUG: Fetching'], ['🐛 DATA:', '{\n  "page": 1\n}']]);
+
+    log.mockRestore();
+    error.mockRestore();
+});
+
+test('debug is silent when off', () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+
+    debug('Fetching');
+
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+});
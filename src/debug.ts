@@ -0,0 +1,17 @@
+// Debug logging utility
+export let DEBUG = process.env.DEBUG === 'true' || process.env.DEBUG === '1';
+
+// Toggled at runtime by the /debug command
+export const setDebug = (enabled: boolean) => {
+    DEBUG = enabled;
+};
+
+// Written to stderr so stdout stays machine-readable, e.g. with --json
+export const debug = (message: string, data?: any) => {
+    if (DEBUG) {
+        console.error(`🐛 DEBUG: ${message}`);
+        if (data !== undefined) {
+            console.error('🐛 DATA:', JSON.stringify(data, null, 2));
+        }
+    }
+};
@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+
+import { renderHtmlReport, renderMarkdownReport } from './export';
+import type { Message } from './providers';
+import type { SavedSession } from './sessions';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const BLOCK_HASH = '0xf569ec751152b2f814001fc730f7797aa155e4bc3ba9cb6ba24bc2c8c9468c1a';
+const ADDRESS_URL = `https://eth.blockscout.com/address/${VITALIK}`;
+
+const session = (history: Message[], chain = 'ethereum'): SavedSession => ({
+    id: '20261019-101500-aaaa',
+    title: 'Vitalik <3',
+    createdAt: '2026-10-19T10:15:00.000Z',
+    updatedAt: '2026-10-19T10:16:00.000Z',
+    chain,
+    provider: 'gemini',
+    model: 'gemini-2.0-flash',
+    history,
+});
+
+// A question answered with plain text
+const answered = (answer: string): Message[] => [
+    { role: 'user', text: 'Who is this?' },
+    { role: 'model', text: answer, toolCalls: [] },
+];
+
+// A question answered by one tool call, then `answer`
+const toolAnswered = (name: string, args: Record<string, unknown>, result: unknown, answer = 'Done.'): Message[] => [
+    { role: 'user', text: 'Look it up' },
+    { role: 'model', text: '', toolCalls: [{ id: 'call-1', name, args }] },
+    { role: 'tool', results: [{ id: 'call-1', name, result }] },
+    { role: 'model', text: answer, toolCalls: [] },
+];
+
+const markdown = (answer: string) => renderMarkdownReport(session(answered(answer)));
+const html = (answer: string) => renderHtmlReport(session(answered(answer)));
+
+describe('linking answers', () => {
+    test('links bare addresses and block numbers', () => {
+        expect(markdown(`It is ${VITALIK}, active since block 46147.`))
+            .toContain(`It is [${VITALIK}](${ADDRESS_URL}), active since block [46147](https://eth.blockscout.com/block/46147).`);
+        expect(html(`It is ${VITALIK}.`)).toContain(`It is <a href="${ADDRESS_URL}">${VITALIK}</a>.`);
+    });
+
+    test('leaves code spans and fences alone', () => {
+        const answer = `Call \`balanceOf(${VITALIK})\`:\n\n\`\`\`\ngetAddressInfo ${VITALIK}\n\`\`\``;
+
+        expect(markdown(answer)).toContain(answer);
+        expect(html(answer)).not.toContain('<a ');
+    });
+
+    test('leaves existing links and URLs alone', () => {
+        const answer = `See [the explorer](${ADDRESS_URL}) or ${ADDRESS_URL} or <${ADDRESS_URL}>.`;
+
+        expect(markdown(answer)).toContain(answer);
+        expect(html(answer)).not.toContain('<a ');
+    });
+});
+
+describe('renderMarkdownReport', () => {
+    test('renders the header and one section per question', () => {
+        const report = renderMarkdownReport(session([...answered('First.'), ...answered('Second.')]));
+
+        expect(report).toStartWith('# Vitalik <3\n\n- **Session:** 20261019-101500-aaaa\n- **Chain:** ethereum (chain id 1)\n- **Model:** gemini-2.0-flash (gemini)\n');
+        expect(report).toContain('## 1. Who is this?\n\nFirst.\n\n## 2. Who is this?\n\nSecond.\n');
+    });
+
+    test('renders tool results as linked tables', () => {
+        const report = renderMarkdownReport(session(toolAnswered(
+            'getAddressTransactions',
+            { address: VITALIK },
+            { items: [{ hash: TX_HASH, from: VITALIK, blockNumber: 17615720 }], nextPageCursor: 'cursor-1' }
+        )));
+
+        expect(report).toContain('### 🔧 getAddressTransactions\n\nArguments: `{"address":"0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045"}`');
+        expect(report).toContain([
+            '| hash | from | blockNumber |',
+            '| --- | --- | --- |',
+            `| [${TX_HASH}](https://eth.blockscout.com/tx/${TX_HASH}) | [${VITALIK}](${ADDRESS_URL}) | [17615720](https://eth.blockscout.com/block/17615720) |`,
+        ].join('\n'));
+        expect(report).not.toContain('cursor-1');
+    });
+
+    test('links block hashes of block listings to blocks', () => {
+        const report = renderMarkdownReport(session(toolAnswered('getLatestBlocks', {}, { items: [{ number: 1, hash: BLOCK_HASH }] })));
+
+        expect(report).toContain(`[${BLOCK_HASH}](https://eth.blockscout.com/block/${BLOCK_HASH})`);
+    });
+
+    test('links tool results to the chain the tool ran on', () => {
+        const report = renderMarkdownReport(session(toolAnswered('getAddressInfo', { address: VITALIK, chain: 'base' }, { address: VITALIK }, `Found ${VITALIK}.`)));
+
+        expect(report).toContain('- **Chain:** ethereum');
+        expect(report).toContain(`| address | [${VITALIK}](https://base.blockscout.com/address/${VITALIK}) |`);
+        expect(report).toContain(`Found [${VITALIK}](https://base.blockscout.com/address/${VITALIK}).`);
+        expect(report).not.toContain('eth.blockscout.com');
+    });
+
+    test('falls back to the chain the session was saved on', () => {
+        const report = renderMarkdownReport(session(toolAnswered('getAddressInfo', { address: VITALIK }, { address: VITALIK }), 'optimism'));
+
+        expect(report).toContain(`https://optimism.blockscout.com/address/${VITALIK}`);
+        expect(report).not.toContain('eth.blockscout.com');
+    });
+
+    test('links answers to the session chain when their tools used several chains', () => {
+        const report = renderMarkdownReport(session([
+            { role: 'user', text: 'Compare' },
+            { role: 'model', text: '', toolCalls: [{ id: 'a', name: 'getAddressInfo', args: { address: VITALIK, chain: 'base' } }, { id: 'b', name: 'getAddressInfo', args: { address: VITALIK, chain: 'gnosis' } }] },
+            { role: 'tool', results: [{ id: 'a', name: 'getAddressInfo', result: { address: VITALIK } }, { id: 'b', name: 'getAddressInfo', result: { address: VITALIK } }] },
+            { role: 'model', text: `Both hold ${VITALIK}.`, toolCalls: [] },
+        ]));
+
+        expect(report).toContain(`https://base.blockscout.com/address/${VITALIK}`);
+        expect(report).toContain(`https://gnosis.blockscout.com/address/${VITALIK}`);
+        expect(report).toContain(`Both hold [${VITALIK}](${ADDRESS_URL}).`);
+    });
+});
+
+describe('renderHtmlReport', () => {
+    test('escapes the transcript', () => {
+        const report = renderHtmlReport(session(answered('<script>alert(1)</script> & "quotes"')));
+
+        expect(report).toContain('<title>Vitalik &lt;3</title>');
+        expect(report).toContain('<div class="answer">&lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;quotes&quot;</div>');
+        expect(report).not.toContain('<script>');
+    });
+
+    test('renders tool results as tables linked to the chain the tool ran on', () => {
+        const report = renderHtmlReport(session(toolAnswered('getAddressInfo', { address: VITALIK, chain: 'base' }, { address: VITALIK, name: 'Vitalik <3' })));
+
+        expect(report).toContain('<h3>🔧 getAddressInfo</h3>');
+        expect(report).toContain(`<tr><td>address</td><td><a href="https://base.blockscout.com/address/${VITALIK}">${VITALIK}</a></td></tr>`);
+        expect(report).toContain('<tr><td>name</td><td>Vitalik &lt;3</td></tr>');
+    });
+});
@@ -0,0 +1,237 @@
+import { stripAnsi } from './ansi';
+import { chainRegistry, explorerUrl, findChain, type Chain, type ChainRegistry } from './chains';
+import { unwrapToolResult } from './injection';
+import type { SavedSession } from './sessions';
+import { tabulate } from './tabulate';
+
+export const EXPORT_FORMATS = ['md', 'html'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Each step links to the explorer of the chain it is about
+type Step =
+    | { kind: 'text'; text: string; chain: Chain }
+    | { kind: 'tool'; name: string; args: Record<string, unknown>; result: unknown; chain: Chain };
+
+type Exchange = {
+    question: string;
+    steps: Step[];
+};
+
+// The chain a session was saved on, falling back to the default for chains no longer configured
+const sessionChain = (session: SavedSession, registry: ChainRegistry) =>
+    findChain(registry, session.chain) ?? registry.defaultChain;
+
+// Groups the history into one exchange per question
+const toExchanges = (session: SavedSession, registry: ChainRegistry): Exchange[] => {
+    const defaultChain = sessionChain(session, registry);
+    const exchanges: Exchange[] = [];
+    let pendingCalls: { id?: string; args: Record<string, unknown> }[] = [];
+
+    for (const message of session.history) {
+        if (message.role === 'user') {
+            exchanges.push({ question: message.text, steps: [] });
+            continue;
+        }
+
+        const current = exchanges.at(-1);
+
+        if (!current) {
+            continue;
+        }
+
+        if (message.role === 'model') {
+            if (message.text.trim()) {
+                current.steps.push({ kind: 'text', text: stripAnsi(message.text).trim(), chain: defaultChain });
+            }
+
+            pendingCalls = message.toolCalls;
+        } else {
+            message.results.forEach((result, index) => {
+                const call = pendingCalls.find((candidate) => result.id !== undefined && candidate.id === result.id) ?? pendingCalls[index];
+                const args = call?.args ?? {};
+                // Tools called with a chain argument ran on that chain instead of the session's
+                const chain = args.chain === undefined ? defaultChain : findChain(registry, String(args.chain)) ?? defaultChain;
+
+                current.steps.push({ kind: 'tool', name: result.name, args, result: unwrapToolResult(result.result), chain });
+            });
+        }
+    }
+
+    // An answer is about the chain its tool calls used, when they all used the same one
+    for (const exchange of exchanges) {
+        const chains = new Set(exchange.steps.filter((step) => step.kind === 'tool').map((step) => step.chain));
+
+        if (chains.size === 1) {
+            const [chain] = chains;
+
+            exchange.steps.forEach((step) => {
+                step.chain = chain!;
+            });
+        }
+    }
+
+    return exchanges;
+};
+
+// Addresses and transaction hashes; the \b keeps a 40-digit match from firing inside a 64-digit hash
+const HEX_PATTERN = /\b0x(?:[0-9a-fA-F]{64}|[0-9a-fA-F]{40})\b/g;
+const BLOCK_PATTERN = /\b(blocks? #?)(\d{4,})\b/gi;
+const BLOCK_COLUMNS = new Set(['blockNumber', 'number', 'height', 'blockHash']);
+
+// Tools whose rows are blocks, so their plain `hash` column is a block hash
+const BLOCK_TOOLS = new Set(['getLatestBlocks']);
+
+const hexUrl = (chain: Chain, hex: string) => explorerUrl(chain, `${hex.length === 42 ? 'address' : 'tx'}/${hex}`);
+
+// Code fences and spans, Markdown links and URLs are left as written; linking inside them would break them
+const VERBATIM_PATTERN = /(```[\s\S]*?```|`[^`\n]*`|\[[^\]\n]*\]\([^)\s]*\)|<https?:\/\/[^>\s]*>|https?:\/\/[^\s<>()[\]]+)/g;
+
+const linkify = (text: string, chain: Chain, link: (label: string, url: string) => string) => text
+    .split(VERBATIM_PATTERN)
+    // split() puts the verbatim matches at odd indexes
+    .map((part, index) => index % 2 === 1 ? part : part
+        .replace(HEX_PATTERN, (hex) => link(hex, hexUrl(chain, hex)))
+        .replace(BLOCK_PATTERN, (_match, prefix: string, number: string) => `${prefix}${link(number, explorerUrl(chain, `block/${number}`))}`))
+    .join('');
+
+const cellText = (value: unknown) => {
+    if (value === undefined || value === null) {
+        return '';
+    }
+
+    return stripAnsi(typeof value === 'object' ? JSON.stringify(value) : String(value));
+};
+
+const exportedAt = () => new Date().toISOString().slice(0, 16).replace('T', ' ');
+
+const title = (session: SavedSession) => session.title ?? 'Blockchain investigation';
+
+export const renderMarkdownReport = (session: SavedSession, registry: ChainRegistry = chainRegistry) => {
+    const chain = sessionChain(session, registry);
+    const link = (label: string, url: string) => `[${label}](${url})`;
+    const cell = (chain: Chain, column: string, value: unknown) => {
+        const text = cellText(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+        return BLOCK_COLUMNS.has(column) && /^(\d+|0x[0-9a-fA-F]{64})$/.test(text)
+            ? link(text, explorerUrl(chain, `block/${text}`))
+            : linkify(text, chain, link);
+    };
+    const table = (chain: Chain, rows: Record<string, unknown>[], blockRows = false) => {
+        const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+        return [
+            `| ${columns.join(' | ')} |`,
+            `| ${columns.map(() => '---').join(' | ')} |`,
+            ...rows.map((row) => `| ${columns.map((column) => cell(chain, blockRows && column === 'hash' ? 'blockHash' : column, row[column])).join(' | ')} |`),
+        ].join('\n');
+    };
+    const renderResult = ({ name: tool, result, chain }: Extract<Step, { kind: 'tool' }>) => {
+        if (typeof result !== 'object' || result === null) {
+            return cell(chain, '', result);
+        }
+
+        const { rows, fields } = tabulate(result);
+        const fieldTable = table(chain, Object.entries(fields).map(([field, value]) => ({ field, value })));
+
+        return rows ? [table(chain, rows, BLOCK_TOOLS.has(tool)), ...(Object.keys(fields).length > 0 ? [fieldTable] : [])].join('\n\n') : fieldTable;
+    };
+
+    const lines = [
+        `# ${title(session)}`,
+        '',
+        `- **Session:** ${session.id}`,
+        `- **Chain:** ${chain.name} (chain id ${chain.chainId})`,
+        `- **Model:** ${session.model} (${session.provider})`,
+        `- **Exported:** ${exportedAt()} UTC`,
+    ];
+
+    toExchanges(session, registry).forEach((exchange, index) => {
+        lines.push('', `## ${index + 1}. ${stripAnsi(exchange.question)}`);
+
+        for (const step of exchange.steps) {
+            if (step.kind === 'text') {
+                lines.push('', linkify(step.text, step.chain, link));
+            } else {
+                lines.push('', `### 🔧 ${step.name}`, '', `Arguments: \`${JSON.stringify(step.args)}\``, '', renderResult(step));
+            }
+        }
+    });
+
+    return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const STYLE = `body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; font-size: 0.9rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; text-align: left; word-break: break-all; }
+th { background: #f6f8fa; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.25rem; margin-top: 2rem; }
+.answer { white-space: pre-wrap; }
+code { background: #f6f8fa; padding: 0.1rem 0.3rem; }`;
+
+export const renderHtmlReport = (session: SavedSession, registry: ChainRegistry = chainRegistry) => {
+    const chain = sessionChain(session, registry);
+    const link = (label: string, url: string) => `<a href="${url}">${label}</a>`;
+    const cell = (chain: Chain, column: string, value: unknown) => {
+        const text = escapeHtml(cellText(value));
+
+        return BLOCK_COLUMNS.has(column) && /^(\d+|0x[0-9a-fA-F]{64})$/.test(text)
+            ? link(text, explorerUrl(chain, `block/${text}`))
+            : linkify(text, chain, link);
+    };
+    const table = (chain: Chain, rows: Record<string, unknown>[], blockRows = false) => {
+        const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+        return `<table><thead><tr>${columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead><tbody>${
+            rows.map((row) => `<tr>${columns.map((column) => `<td>${cell(chain, blockRows && column === 'hash' ? 'blockHash' : column, row[column])}</td>`).join('')}</tr>`).join('')
+        }</tbody></table>`;
+    };
+    const renderResult = ({ name: tool, result, chain }: Extract<Step, { kind: 'tool' }>) => {
+        if (typeof result !== 'object' || result === null) {
+            return `<p>${cell(chain, '', result)}</p>`;
+        }
+
+        const { rows, fields } = tabulate(result);
+        const fieldTable = table(chain, Object.entries(fields).map(([field, value]) => ({ field, value })));
+
+        return rows ? table(chain, rows, BLOCK_TOOLS.has(tool)) + (Object.keys(fields).length > 0 ? fieldTable : '') : fieldTable;
+    };
+
+    const body = toExchanges(session, registry).map((exchange, index) => [
+        `<h2>${index + 1}. ${escapeHtml(stripAnsi(exchange.question))}</h2>`,
+        ...exchange.steps.map((step) => step.kind === 'text'
+            ? `<div class="answer">${linkify(escapeHtml(step.text), step.chain, link)}</div>`
+            : `<h3>🔧 ${escapeHtml(step.name)}</h3><p>Arguments: <code>${escapeHtml(JSON.stringify(step.args))}</code></p>${renderResult(step)}`),
+    ].join('\n')).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title(session))}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title(session))}</h1>
+<ul>
+<li><strong>Session:</strong> ${escapeHtml(session.id)}</li>
+<li><strong>Chain:</strong> ${escapeHtml(chain.name)} (chain id ${chain.chainId})</li>
+<li><strong>Model:</strong> ${escapeHtml(session.model)} (${escapeHtml(session.provider)})</li>
+<li><strong>Exported:</strong> ${exportedAt()} UTC</li>
+</ul>
+${body}
+</body>
+</html>
+`;
+};
+
+export const renderReport = (format: ExportFormat, session: SavedSession) =>
+    format === 'md' ? renderMarkdownReport(session) : renderHtmlReport(session);
@@ -1,3 +1,3 @@
-import { useApi } from './api';
+import { getApi } from './api';
 
 console.log("Hello via Bun!");
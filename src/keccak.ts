@@ -0,0 +1,98 @@
+// Keccak-256 as used by Ethereum (original Keccak padding, not NIST SHA3-256), for EIP-55 checksums
+
+const ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offset of lane x + 5y
+const ROTATIONS = [
+    0n, 1n, 62n, 28n, 27n,
+    36n, 44n, 6n, 55n, 20n,
+    3n, 10n, 43n, 25n, 39n,
+    41n, 45n, 15n, 21n, 8n,
+    18n, 2n, 61n, 56n, 14n,
+];
+
+const MASK = (1n << 64n) - 1n;
+// 1088-bit rate for a 256-bit output
+const RATE = 136;
+
+const rotate = (lane: bigint, offset: bigint) => offset === 0n ? lane : ((lane << offset) | (lane >> (64n - offset))) & MASK;
+
+const permute = (state: bigint[]) => {
+    const columns = new Array<bigint>(5);
+    const moved = new Array<bigint>(25);
+
+    for (const constant of ROUND_CONSTANTS) {
+        // θ
+        for (let x = 0; x < 5; x++) {
+            columns[x] = state[x]! ^ state[x + 5]! ^ state[x + 10]! ^ state[x + 15]! ^ state[x + 20]!;
+        }
+
+        for (let x = 0; x < 5; x++) {
+            const mix = columns[(x + 4) % 5]! ^ rotate(columns[(x + 1) % 5]!, 1n);
+
+            for (let y = 0; y < 25; y += 5) {
+                state[x + y] = state[x + y]! ^ mix;
+            }
+        }
+
+        // ρ and π
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y]!, ROTATIONS[x + 5 * y]!);
+            }
+        }
+
+        // χ
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = moved[x + y]! ^ (~moved[(x + 1) % 5 + y]! & MASK & moved[(x + 2) % 5 + y]!);
+            }
+        }
+
+        // ι
+        state[0] = state[0]! ^ constant;
+    }
+};
+
+// Hex digest (without 0x) of a UTF-8 string or raw bytes
+export const keccak256 = (input: string | Uint8Array) => {
+    const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    const padded = new Uint8Array(Math.floor(bytes.length / RATE + 1) * RATE);
+
+    padded.set(bytes);
+    padded[bytes.length] = 0x01;
+    padded[padded.length - 1]! |= 0x80;
+
+    const state = new Array<bigint>(25).fill(0n);
+
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let lane = 0; lane < RATE / 8; lane++) {
+            let value = 0n;
+
+            for (let byte = 7; byte >= 0; byte--) {
+                value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]!);
+            }
+
+            state[lane] = state[lane]! ^ value;
+        }
+
+        permute(state);
+    }
+
+    let digest = '';
+
+    for (let lane = 0; lane < 4; lane++) {
+        for (let byte = 0; byte < 8; byte++) {
+            digest += Number((state[lane]! >> BigInt(byte * 8)) & 0xffn).toString(16).padStart(2, '0');
+        }
+    }
+
+    return digest;
+};
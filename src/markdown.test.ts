@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { createMarkdownStream, renderMarkdown, shouldUseColor } from './markdown';
+
+const plain = (markdown: string) => renderMarkdown(markdown, { color: false });
+const ansi = (markdown: string) => renderMarkdown(markdown, { color: true });
+
+describe('renderMarkdown without color', () => {
+    test('strips heading markers and inline markup', () => {
+        expect(plain('# Summary\n## Balance ##\nHolds **1.5 ETH** and *some* _tokens_, see `getAddressInfo`.'))
+            .toBe('Summary\nBalance\nHolds 1.5 ETH and some tokens, see getAddressInfo.');
+    });
+
+    test('keeps snake_case and arithmetic asterisks', () => {
+        expect(plain('Use block_number and 2 * 3 * 4.')).toBe('Use block_number and 2 * 3 * 4.');
+    });
+
+    test('renders bullets, numbered lists, quotes and rules', () => {
+        expect(plain('- one\n  * nested\n1) first\n2. second\n> quoted\n---')).toBe([
+            '• one',
+            '  • nested',
+            '1. first',
+            '2. second',
+            '│ quoted',
+            '─'.repeat(40),
+        ].join('\n'));
+    });
+
+    test('shows link targets next to their labels', () => {
+        expect(plain('See [the explorer](https://eth.blockscout.com/tx/0x1).')).toBe('See the explorer (https://eth.blockscout.com/tx/0x1).');
+    });
+
+    test('indents fenced code and leaves its markup alone', () => {
+        expect(plain('Run:\n```bash\nbun run chat **now**\n```\nDone.')).toBe('Run:\n  bun run chat **now**\nDone.');
+    });
+
+    test('aligns table columns and drops the separator row', () => {
+        expect(plain('| Token | Balance |\n|:---|---:|\n| USDC | 1,500 |\n| WETH \\| wrapped | 2 |')).toBe([
+            'Token           Balance',
+            '──────────────  ───────',
+            'USDC            1,500',
+            'WETH | wrapped  2',
+        ].join('\n'));
+    });
+
+    test('drops escape sequences from the input', () => {
+        expect(plain('\x1b[31mred\x1b[0m text')).toBe('red text');
+    });
+});
+
+describe('renderMarkdown with color', () => {
+    test('styles headings, emphasis and code', () => {
+        expect(ansi('# Title')).toBe('\x1b[1m\x1b[4mTitle\x1b[24m\x1b[22m');
+        expect(ansi('## Section')).toBe('\x1b[1mSection\x1b[22m');
+        expect(ansi('**bold** *italic* `code`')).toBe('\x1b[1mbold\x1b[22m \x1b[3mitalic\x1b[23m \x1b[36mcode\x1b[39m');
+    });
+
+    test('does not style markup inside code spans', () => {
+        expect(ansi('`**raw**`')).toBe('\x1b[36m**raw**\x1b[39m');
+    });
+
+    test('underlines link labels and colors fenced code', () => {
+        expect(ansi('[docs](https://docs.blockscout.com)')).toBe('\x1b[4mdocs\x1b[24m (https://docs.blockscout.com)');
+        expect(ansi('```\nx = 1\n```')).toBe('  \x1b[33mx = 1\x1b[39m');
+    });
+});
+
+describe('shouldUseColor', () => {
+    const noColor = process.env.NO_COLOR;
+
+    afterEach(() => {
+        if (noColor === undefined) {
+            delete process.env.NO_COLOR;
+        } else {
+            process.env.NO_COLOR = noColor;
+        }
+    });
+
+    test('uses color only on a TTY', () => {
+        delete process.env.NO_COLOR;
+
+        expect(shouldUseColor({ isTTY: true })).toBe(true);
+        expect(shouldUseColor({ isTTY: false })).toBe(false);
+        expect(shouldUseColor({})).toBe(false);
+    });
+
+    test('respects NO_COLOR', () => {
+        process.env.NO_COLOR = '1';
+
+        expect(shouldUseColor({ isTTY: true })).toBe(false);
+    });
+});
+
+describe('createMarkdownStream', () => {
+    const collect = () => {
+        const writes: string[] = [];
+
+        return { writes, stream: createMarkdownStream((text) => writes.push(text), { color: false }) };
+    };
+
+    test('writes complete lines as they arrive', () => {
+        const { writes, stream } = collect();
+
+        stream.push('# Ti');
+        expect(writes).toEqual([]);
+
+        stream.push('tle\nSecond **li');
+        expect(writes).toEqual(['Title\n']);
+
+        stream.push('ne**');
+        stream.end();
+        expect(writes).toEqual(['Title\n', 'Second line\n']);
+    });
+
+    test('holds code fences and tables back until they end', () => {
+        const { writes, stream } = collect();
+
+        stream.push('```\ncode\n');
+        stream.push('| a | b |\n');
+        expect(writes).toEqual([]);
+
+        stream.push('```\n| a | bb |\n|---|---|\n| 1 | 2 |\n');
+        expect(writes).toEqual(['  code\n  | a | b |\n']);
+
+        stream.push('after\n');
+        expect(writes.slice(1)).toEqual(['a  bb\n─  ──\n1  2\nafter\n']);
+    });
+});
@@ -0,0 +1,200 @@
+import { sanitizeText } from './ansi';
+
+// Colors for a TTY, plain text when piped or when NO_COLOR is set (https://no-color.org)
+export const shouldUseColor = (stream: { isTTY?: boolean } = process.stdout) =>
+    !process.env.NO_COLOR && !!stream.isTTY;
+
+type Style = (text: string) => string;
+
+const sgr = (open: number, close: number): Style => (text) => `\x1b[${open}m${text}\x1b[${close}m`;
+
+const ANSI_STYLES = {
+    bold: sgr(1, 22),
+    dim: sgr(2, 22),
+    italic: sgr(3, 23),
+    underline: sgr(4, 24),
+    cyan: sgr(36, 39),
+    yellow: sgr(33, 39),
+};
+
+const PLAIN_STYLES: typeof ANSI_STYLES = {
+    bold: (text) => text,
+    dim: (text) => text,
+    italic: (text) => text,
+    underline: (text) => text,
+    cyan: (text) => text,
+    yellow: (text) => text,
+};
+
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+const splitRow = (line: string) => line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+const renderInline = (text: string, style: typeof ANSI_STYLES) => {
+    // Code spans are set aside first so their contents are not styled
+    const spans: string[] = [];
+    const withoutCode = text.replace(/`([^`]+)`/g, (_match, code: string) => `\u0000${spans.push(code) - 1}\u0000`);
+
+    return withoutCode
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_match, label: string, url: string) => `${style.underline(label)} (${url})`)
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, (_match, _marker, content: string) => style.bold(content))
+        .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?!\w)/g, (_match, before: string, content: string) => `${before}${style.italic(content)}`)
+        .replace(/(^|[^\w])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, (_match, before: string, content: string) => `${before}${style.italic(content)}`)
+        .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => style.cyan(spans[Number(index)]!));
+};
+
+const renderTable = (lines: string[], style: typeof ANSI_STYLES) => {
+    const rows = lines.filter((line) => !TABLE_SEPARATOR.test(line.trim())).map((line) => splitRow(line).map((cell) => renderInline(cell, style)));
+    const columns = Math.max(...rows.map((row) => row.length));
+    const widths = Array.from({ length: columns }, (_, column) =>
+        Math.max(...rows.map((row) => Bun.stringWidth(row[column] ?? '')))
+    );
+    const pad = (cell: string, width: number) => cell + ' '.repeat(Math.max(0, width - Bun.stringWidth(cell)));
+    const renderRow = (row: string[]) => widths.map((width, column) => pad(row[column] ?? '', width)).join('  ').trimEnd();
+
+    const [header, ...body] = rows;
+
+    if (!header) {
+        return [];
+    }
+
+    return [
+        renderRow(header.map((cell) => style.bold(cell))),
+        style.dim(widths.map((width) => '─'.repeat(width)).join('  ')),
+        ...body.map(renderRow),
+    ];
+};
+
+/**
+ * Renders the Markdown the model writes for the terminal: ANSI styling when
+ * `color` is set, plain text with the Markdown syntax removed otherwise.
+ * Escape sequences already in the input are always dropped.
+ */
+export const renderMarkdown = (markdown: string, { color = shouldUseColor() }: { color?: boolean } = {}) => {
+    const style = color ? ANSI_STYLES : PLAIN_STYLES;
+    const lines = sanitizeText(markdown).split('\n');
+    const output: string[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index]!;
+
+        // Fenced code block
+        if (/^\s*```/.test(line)) {
+            const code: string[] = [];
+
+            while (++index < lines.length && !/^\s*```/.test(lines[index]!)) {
+                code.push(lines[index]!);
+            }
+
+            output.push(...code.map((codeLine) => `  ${style.yellow(codeLine)}`));
+            continue;
+        }
+
+        // Table: a run of lines starting with "|"
+        if (/^\s*\|/.test(line)) {
+            const table = [line];
+
+            while (index + 1 < lines.length && /^\s*\|/.test(lines[index + 1]!)) {
+                table.push(lines[++index]!);
+            }
+
+            output.push(...renderTable(table, style));
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+
+        if (heading) {
+            const text = renderInline(heading[2]!, style);
+
+            output.push(heading[1]!.length === 1 ? style.bold(style.underline(text)) : style.bold(text));
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            output.push(style.dim('─'.repeat(40)));
+            continue;
+        }
+
+        const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+
+        if (bullet) {
+            output.push(`${bullet[1]}• ${renderInline(bullet[2]!, style)}`);
+            continue;
+        }
+
+        const numbered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+
+        if (numbered) {
+            output.push(`${numbered[1]}${numbered[2]}. ${renderInline(numbered[3]!, style)}`);
+            continue;
+        }
+
+        const quote = line.match(/^\s*>\s?(.*)$/);
+
+        if (quote) {
+            output.push(style.dim(`│ ${renderInline(quote[1]!, style)}`));
+            continue;
+        }
+
+        output.push(renderInline(line, style));
+    }
+
+    return output.join('\n');
+};
+
+export type MarkdownStream = {
+    push: (delta: string) => void;
+    // Renders whatever is still buffered
+    end: () => void;
+};
+
+/**
+ * Renders Markdown that arrives in pieces. Complete lines are written as soon
+ * as they arrive, except open code fences and tables, which are held back
+ * until they end so they can be rendered (and aligned) as a whole.
+ */
+export const createMarkdownStream = (write: (text: string) => void, options: { color?: boolean } = {}): MarkdownStream => {
+    let buffer = '';
+
+    const flush = (markdown: string) => write(`${renderMarkdown(markdown, options)}\n`);
+
+    return {
+        push(delta) {
+            buffer += delta;
+
+            const end = buffer.lastIndexOf('\n');
+
+            if (end === -1) {
+                return;
+            }
+
+            const lines = buffer.slice(0, end).split('\n');
+            let openFence = -1;
+
+            lines.forEach((line, index) => {
+                if (/^\s*```/.test(line)) {
+                    openFence = openFence === -1 ? index : -1;
+                }
+            });
+
+            let ready = openFence === -1 ? lines.length : openFence;
+
+            // A table could still get more rows
+            while (openFence === -1 && ready > 0 && /^\s*\|/.test(lines[ready - 1]!)) {
+                ready--;
+            }
+
+            if (ready > 0) {
+                flush(lines.slice(0, ready).join('\n'));
+                buffer = [...lines.slice(ready), buffer.slice(end + 1)].join('\n');
+            }
+        },
+        end() {
+            if (buffer) {
+                flush(buffer);
+                buffer = '';
+            }
+        },
+    };
+};
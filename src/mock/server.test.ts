@@ -0,0 +1,70 @@
+import { afterAll, afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+
+import { FIXTURES_DIR, loadChainFixtures, startMockServer } from './server';
+
+const server = startMockServer({ directory: FIXTURES_DIR, port: 0 });
+const baseUrl = `http://localhost:${server.port}/ethereum/api/v2`;
+
+afterAll(() => server.stop(true));
+
+let spies: ReturnType<typeof spyOn>[] = [];
+
+beforeEach(() => {
+    spies = [spyOn(console, 'log').mockImplementation(() => {}), spyOn(console, 'warn').mockImplementation(() => {})];
+});
+
+afterEach(() => {
+    spies.forEach((spy) => spy.mockRestore());
+});
+
+const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+
+    return { status: response.status, body: await response.json() as unknown };
+};
+
+describe('startMockServer', () => {
+    test('replays every recorded ethereum fixture', async () => {
+        const fixtures = loadChainFixtures(FIXTURES_DIR).get('ethereum')!;
+
+        expect(fixtures.size).toBeGreaterThan(0);
+
+        for (const { request, response } of fixtures.values()) {
+            const query = new URLSearchParams(request.query).toString();
+
+            expect(await get(`${request.path}${query ? `?${query}` : ''}`)).toEqual({ status: response.status, body: response.body });
+        }
+    });
+
+    test('matches query parameters in any order', async () => {
+        const forward = await get('/blocks?block_number=22652538&items_count=50');
+        const reversed = await get('/blocks?items_count=50&block_number=22652538');
+
+        expect(forward.status).toBe(200);
+        expect(reversed).toEqual(forward);
+    });
+
+    test('answers a missing fixture with 404', async () => {
+        expect(await get('/addresses/0x0000000000000000000000000000000000000000')).toEqual({ status: 404, body: { message: 'Not found' } });
+    });
+
+    test('answers an unknown chain with 404', async () => {
+        const response = await fetch(`http://localhost:${server.port}/gnosis/api/v2/stats`);
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ message: 'Unknown chain or path: /gnosis/api/v2/stats' });
+    });
+
+    test('serves the content type openapi-hooks expects', async () => {
+        const response = await fetch(`${baseUrl}/stats`);
+
+        expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    });
+});
+
+test('loadChainFixtures indexes one fixture map per chain directory', () => {
+    const chains = loadChainFixtures(FIXTURES_DIR);
+
+    expect([...chains.keys()]).toEqual(['ethereum']);
+    expect(chains.get('ethereum')!.has('GET /stats')).toBe(true);
+});
@@ -0,0 +1,71 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+
+import { fixtureKey, loadFixtures, type Fixture } from '../api/fixtures';
+
+export const FIXTURES_DIR = process.env.FIXTURES_DIR || join(import.meta.dir, '..', '..', 'fixtures');
+export const MOCK_API_PORT = Number(process.env.MOCK_API_PORT || 4010);
+
+// Fixtures per chain, from <directory>/<chain name>/*.json
+export const loadChainFixtures = (directory: string) => {
+    const chains = new Map<string, Map<string, Fixture>>();
+
+    for (const entry of readdirSync(directory)) {
+        if (statSync(join(directory, entry)).isDirectory()) {
+            chains.set(entry, loadFixtures(join(directory, entry)));
+        }
+    }
+
+    return chains;
+};
+
+// Blockscout's exact content type; openapi-hooks matches on it
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+});
+
+/**
+ * A stand-in for Blockscout that answers from recorded fixtures.
+ *
+ * Chain `name` is served at http://localhost:<port>/<name>/api/v2/, which is
+ * what fixtures/chains.json points at.
+ */
+export const startMockServer = ({ directory = FIXTURES_DIR, port = MOCK_API_PORT } = {}) => {
+    const chains = loadChainFixtures(directory);
+
+    return Bun.serve({
+        port,
+        fetch(request) {
+            const url = new URL(request.url);
+            const match = url.pathname.match(/^\/([^/]+)\/api\/v2(\/.*)$/);
+            const fixtures = match && chains.get(match[1]!);
+
+            if (!match || !fixtures) {
+                return json({ message: `Unknown chain or path: ${url.pathname}` }, 404);
+            }
+
+            const key = fixtureKey(request.method, match[2]!, Object.fromEntries(url.searchParams));
+            const fixture = fixtures.get(key);
+
+            if (!fixture) {
+                console.warn(`⚠️  No fixture for ${match[1]} ${key}`);
+                return json({ message: 'Not found' }, 404);
+            }
+
+            console.log(`📼 ${match[1]} ${key} → ${fixture.response.status}`);
+            return json(fixture.response.body, fixture.response.status);
+        },
+    });
+};
+
+if (import.meta.main) {
+    if (!existsSync(FIXTURES_DIR)) {
+        console.error(`❌ Fixtures directory not found: ${FIXTURES_DIR}`);
+        process.exit(1);
+    }
+
+    const server = startMockServer();
+
+    console.log(`📼 Mock Blockscout serving ${FIXTURES_DIR} at http://localhost:${server.port}/<chain>/api/v2/`);
+}
@@ -0,0 +1,71 @@
+import type { ChatSession, LLMProvider, Message, ModelTurn, ToolCall, ToolResult } from './types';
+
+// A model reply to replay, or an error the "model" should fail with
+export type ScriptedTurn =
+    | { text?: string; toolCalls?: ToolCall[] }
+    | { error: Error };
+
+export type ScriptedProvider = LLMProvider & {
+    // Everything sent to the model, in order
+    inputs: (string | ToolResult[])[];
+    remaining: () => number;
+};
+
+/**
+ * Replays a fixed script of model turns, one per `send`, so the chat loop
+ * can be exercised without a network or an API key.
+ */
+export const createScriptedProvider = (script: ScriptedTurn[], model = 'scripted'): ScriptedProvider => {
+    const pending = [...script];
+    const inputs: (string | ToolResult[])[] = [];
+
+    const provider: ScriptedProvider = {
+        name: 'fake',
+        model,
+        inputs,
+        remaining: () => pending.length,
+        createSession({ history = [] }): ChatSession {
+            const log: Message[] = [...history];
+
+            return {
+                async send(input, { onText, signal } = {}) {
+                    signal?.throwIfAborted();
+                    inputs.push(input);
+
+                    const next = pending.shift();
+
+                    if (!next) {
+                        throw new Error(`Scripted provider ran out of turns (input: ${JSON.stringify(input)})`);
+                    }
+
+                    if ('error' in next) {
+                        throw next.error;
+                    }
+
+                    const turn: ModelTurn = {
+                        text: next.text ?? '',
+                        toolCalls: next.toolCalls ?? []
+                    };
+
+                    // Streams word by word, like a real model would in small chunks
+                    for (const word of turn.text.match(/\S+\s*|\s+/g) ?? []) {
+                        onText?.(word);
+                    }
+
+                    log.push(
+                        typeof input === 'string' ? { role: 'user', text: input } : { role: 'tool', results: input },
+                        { role: 'model', ...turn }
+                    );
+
+                    return turn;
+                },
+                getHistory: () => [...log],
+                rewind(length) {
+                    log.length = Math.min(length, log.length);
+                },
+            };
+        },
+    };
+
+    return provider;
+};
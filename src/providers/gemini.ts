@@ -0,0 +1,121 @@
+import { FunctionCallingConfigMode, GoogleGenAI, type Content, type GenerateContentConfig, type GenerateContentResponse, type Part } from '@google/genai';
+
+import { debug } from '../debug';
+import type { LLMProvider, Message, ModelTurn, ToolResult } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-001';
+
+const toFunctionResponses = (results: ToolResult[]) => results.map((result): Part => ({
+    functionResponse: {
+        name: result.name,
+        id: result.id,
+        response: { result: result.result }
+    }
+}));
+
+const toContent = (message: Message): Content => {
+    switch (message.role) {
+        case 'user':
+            return { role: 'user', parts: [{ text: message.text }] };
+        case 'model':
+            return {
+                role: 'model',
+                parts: [
+                    ...(message.text ? [{ text: message.text }] : []),
+                    ...message.toolCalls.map((call): Part => ({ functionCall: call }))
+                ]
+            };
+        case 'tool':
+            return { role: 'user', parts: toFunctionResponses(message.results) };
+    }
+};
+
+const toTurn = (parts: Part[]): ModelTurn => ({
+    text: parts.map((part) => part.text ?? '').join(''),
+    toolCalls: parts.flatMap((part) => part.functionCall ? [{
+        id: part.functionCall.id,
+        name: part.functionCall.name ?? '',
+        args: part.functionCall.args ?? {}
+    }] : [])
+});
+
+const responseParts = (response: GenerateContentResponse) =>
+    response.candidates?.find((c) => c.content?.parts)?.content?.parts ?? [];
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: { apiKey: string; model?: string }): LLMProvider => {
+    debug('Initializing Google Gen AI with API key');
+    const ai = new GoogleGenAI({ apiKey });
+
+    const provider: LLMProvider = {
+        name: 'gemini',
+        model,
+        createSession({ systemPrompt, tools, history = [] }) {
+            const config: GenerateContentConfig = {
+                systemInstruction: systemPrompt,
+                toolConfig: {
+                    functionCallingConfig: {
+                        mode: FunctionCallingConfigMode.AUTO
+                    }
+                },
+                tools: [{ functionDeclarations: tools }],
+            };
+            const createChat = (messages: Message[]) => ai.chats.create({
+                model: provider.model,
+                config,
+                history: messages.map(toContent),
+            });
+            let chat = createChat(history);
+            const log = [...history];
+
+            return {
+                async send(input, { onText, signal } = {}) {
+                    // A per-request config replaces the chat's, so the tools have to be repeated
+                    const params = {
+                        message: typeof input === 'string' ? input : toFunctionResponses(input),
+                        config: signal ? { ...config, abortSignal: signal } : undefined,
+                    };
+                    let turn: ModelTurn;
+
+                    if (onText) {
+                        // Function calls can arrive in any chunk, so collect every part
+                        const parts: Part[] = [];
+
+                        for await (const chunk of await chat.sendMessageStream(params)) {
+                            debug('Gemini stream chunk received', chunk);
+
+                            for (const part of responseParts(chunk)) {
+                                if (part.text) {
+                                    onText(part.text);
+                                }
+
+                                parts.push(part);
+                            }
+                        }
+
+                        turn = toTurn(parts);
+                    } else {
+                        const response = await chat.sendMessage(params);
+                        debug('Gemini response received', response);
+
+                        turn = toTurn(responseParts(response));
+                    }
+
+                    log.push(
+                        typeof input === 'string' ? { role: 'user', text: input } : { role: 'tool', results: input },
+                        { role: 'model', ...turn }
+                    );
+
+                    return turn;
+                },
+                getHistory: () => [...log],
+                rewind(length) {
+                    log.length = Math.min(length, log.length);
+                    // The SDK keeps its own copy of the history, so start over from ours
+                    chat = createChat(log);
+                },
+            };
+        },
+    };
+
+    return provider;
+};
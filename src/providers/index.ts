@@ -0,0 +1,43 @@
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export * from './types';
+
+export const PROVIDER_NAMES = ['gemini', 'openai'] as const;
+
+export type ProviderConfig = {
+    provider: string;
+    model?: string;
+    // Only used by the OpenAI-compatible provider
+    baseUrl?: string;
+};
+
+export const providerConfigFromEnv = (): ProviderConfig => ({
+    provider: process.env.LLM_PROVIDER || 'gemini',
+    model: process.env.LLM_MODEL || undefined,
+    baseUrl: process.env.OPENAI_BASE_URL || undefined,
+});
+
+export const createProvider = ({ provider, model, baseUrl }: ProviderConfig): LLMProvider => {
+    switch (provider) {
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+
+            if (!apiKey) {
+                throw new Error('Please set GEMINI_API_KEY environment variable');
+            }
+
+            return createGeminiProvider({ apiKey, model });
+        }
+        case 'openai': {
+            if (!model) {
+                throw new Error('Please set LLM_MODEL (or --model) to the model your OpenAI-compatible server serves');
+            }
+
+            return createOpenAIProvider({ baseUrl, apiKey: process.env.OPENAI_API_KEY, model });
+        }
+        default:
+            throw new Error(`Unknown LLM provider "${provider}", expected one of: ${PROVIDER_NAMES.join(', ')}`);
+    }
+};
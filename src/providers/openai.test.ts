@@ -0,0 +1,204 @@
+import { Type, type FunctionDeclaration } from '@google/genai';
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { createOpenAIProvider, toJsonSchema, toOpenAIMessages } from './openai';
+
+const tools: FunctionDeclaration[] = [{
+    name: 'getAddressInfo',
+    description: 'Address info',
+    parameters: {
+        type: Type.OBJECT,
+        properties: { address: { type: Type.STRING, description: 'The address' } },
+        required: ['address']
+    }
+}];
+
+// A local stand-in for an OpenAI-compatible server: records requests and answers with `reply`
+const requests: { path: string; authorization: string | null; body: Record<string, unknown> & { messages: unknown[] } }[] = [];
+let reply: () => Response = () => Response.json({});
+
+const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+        requests.push({ path: new URL(request.url).pathname, authorization: request.headers.get('authorization'), body: await request.json() as { messages: unknown[] } });
+
+        return reply();
+    },
+});
+
+afterAll(() => server.stop(true));
+
+beforeEach(() => {
+    requests.length = 0;
+});
+
+const completion = (message: unknown) => () => Response.json({ choices: [{ message }] });
+
+// Streams `chunks` verbatim, so tests control where lines and events are split
+const stream = (chunks: string[]) => () => new Response(new ReadableStream({
+    start(controller) {
+        for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+        }
+        controller.close();
+    }
+}), { headers: { 'Content-Type': 'text/event-stream' } });
+
+const event = (delta: unknown) => `data: ${JSON.stringify({ choices: [{ delta }] })}`;
+
+const session = (apiKey?: string) => createOpenAIProvider({ baseUrl: `http://localhost:${server.port}/v1`, apiKey, model: 'local-model' })
+    .createSession({ systemPrompt: 'You are a test.', tools });
+
+describe('toJsonSchema', () => {
+    test('lower-cases Gemini type names, recursing into properties and items', () => {
+        expect(toJsonSchema({
+            type: Type.OBJECT,
+            description: 'Query',
+            properties: {
+                ids: { type: Type.ARRAY, items: { type: Type.STRING } },
+                kind: { type: Type.STRING, enum: ['a', 'b'] }
+            },
+            required: ['ids']
+        })).toEqual({
+            type: 'object',
+            description: 'Query',
+            required: ['ids'],
+            properties: {
+                ids: { type: 'array', items: { type: 'string' } },
+                kind: { type: 'string', enum: ['a', 'b'] }
+            }
+        });
+    });
+});
+
+describe('toOpenAIMessages', () => {
+    test('turns model tool calls into assistant tool_calls with JSON arguments', () => {
+        expect(toOpenAIMessages({ role: 'model', text: '', toolCalls: [{ id: 'abc', name: 'getAddressInfo', args: { address: '0x1' } }] })).toEqual([{
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'abc', type: 'function', function: { name: 'getAddressInfo', arguments: '{"address":"0x1"}' } }]
+        }]);
+    });
+
+    test('pairs calls without ids with their results by position', () => {
+        const [assistant] = toOpenAIMessages({ role: 'model', text: 'Checking.', toolCalls: [{ name: 'a', args: {} }, { name: 'b', args: {} }] });
+        const results = toOpenAIMessages({ role: 'tool', results: [{ name: 'a', result: 1 }, { name: 'b', result: { ok: true } }] });
+
+        expect(assistant).toMatchObject({ content: 'Checking.', tool_calls: [{ id: 'call_0' }, { id: 'call_1' }] });
+        expect(results).toEqual([
+            { role: 'tool', tool_call_id: 'call_0', content: '1' },
+            { role: 'tool', tool_call_id: 'call_1', content: '{"ok":true}' },
+        ]);
+    });
+
+    test('keeps plain user and assistant text', () => {
+        expect(toOpenAIMessages({ role: 'user', text: 'hi' })).toEqual([{ role: 'user', content: 'hi' }]);
+        expect(toOpenAIMessages({ role: 'model', text: 'hello', toolCalls: [] })).toEqual([{ role: 'assistant', content: 'hello' }]);
+    });
+});
+
+describe('createOpenAIProvider', () => {
+    test('posts the conversation, tools and model to chat/completions', async () => {
+        reply = completion({ content: 'Hello!' });
+
+        expect(await session('secret').send('hi')).toEqual({ text: 'Hello!', toolCalls: [] });
+        expect(requests).toEqual([{
+            path: '/v1/chat/completions',
+            authorization: 'Bearer secret',
+            body: {
+                model: 'local-model',
+                messages: [{ role: 'system', content: 'You are a test.' }, { role: 'user', content: 'hi' }],
+                tools: [{
+                    type: 'function',
+                    function: {
+                        name: 'getAddressInfo',
+                        description: 'Address info',
+                        parameters: { type: 'object', properties: { address: { type: 'string', description: 'The address' } }, required: ['address'] }
+                    }
+                }],
+                tool_choice: 'auto',
+                stream: false
+            }
+        }]);
+    });
+
+    test('returns tool calls and answers them under the same call id', async () => {
+        const chat = session();
+
+        reply = completion({ content: null, tool_calls: [{ id: 'call-xyz', type: 'function', function: { name: 'getAddressInfo', arguments: '{"address":"0x1"}' } }] });
+        expect(await chat.send('balance?')).toEqual({ text: '', toolCalls: [{ id: 'call-xyz', name: 'getAddressInfo', args: { address: '0x1' } }] });
+
+        reply = completion({ content: 'It holds 1 ETH.' });
+        await chat.send([{ id: 'call-xyz', name: 'getAddressInfo', result: { balance: '1' } }]);
+
+        expect(requests[1]!.authorization).toBeNull();
+        expect(requests[1]!.body.messages.slice(2)).toEqual([
+            { role: 'assistant', content: null, tool_calls: [{ id: 'call-xyz', type: 'function', function: { name: 'getAddressInfo', arguments: '{"address":"0x1"}' } }] },
+            { role: 'tool', tool_call_id: 'call-xyz', content: '{"balance":"1"}' },
+        ]);
+        expect(chat.getHistory().map((message) => message.role)).toEqual(['user', 'model', 'tool', 'model']);
+    });
+
+    test('treats unparseable tool arguments as empty', async () => {
+        reply = completion({ content: '', tool_calls: [{ id: 'c', type: 'function', function: { name: 'getAddressInfo', arguments: '{not json' } }] });
+
+        expect((await session().send('hi')).toolCalls).toEqual([{ id: 'c', name: 'getAddressInfo', args: {} }]);
+    });
+
+    test('throws on non-2xx responses without recording the turn', async () => {
+        reply = () => new Response('model not loaded', { status: 503, statusText: 'Service Unavailable' });
+        const chat = session();
+
+        await expect(chat.send('hi')).rejects.toThrow('responded with 503 Service Unavailable');
+        expect(chat.getHistory()).toEqual([]);
+    });
+
+    describe('streaming', () => {
+        const sendStreamed = async () => {
+            const deltas: string[] = [];
+            const turn = await session().send('hi', { onText: (delta) => deltas.push(delta) });
+
+            return { turn, deltas };
+        };
+
+        test('streams text deltas', async () => {
+            reply = stream([`${event({ content: 'Hel' })}\n\n${event({ content: 'lo' })}\n\n`, 'data: [DONE]\n\n']);
+
+            expect(await sendStreamed()).toEqual({ turn: { text: 'Hello', toolCalls: [] }, deltas: ['Hel', 'lo'] });
+            expect(requests[0]!.body.stream).toBe(true);
+        });
+
+        test('accepts CRLF line endings', async () => {
+            reply = stream([`${event({ content: 'Hel' })}\r\n\r\n${event({ content: 'lo' })}\r`, '\n\r\ndata: [DONE]\r\n\r\n']);
+
+            expect((await sendStreamed()).turn.text).toBe('Hello');
+        });
+
+        test('keeps a final event without a trailing newline', async () => {
+            reply = stream([`${event({ content: 'Hel' })}\n\n`, event({ content: 'lo' })]);
+
+            expect((await sendStreamed()).turn.text).toBe('Hello');
+        });
+
+        test('reassembles tool calls fragmented across chunks', async () => {
+            const lines = [
+                event({ tool_calls: [{ index: 0, id: 'call-1', function: { name: 'getAddressInfo', arguments: '' } }] }),
+                event({ tool_calls: [{ index: 0, function: { arguments: '{"addr' } }] }),
+                event({ tool_calls: [{ index: 1, id: 'call-2', function: { name: 'getAddressInfo', arguments: '{"address":"0x2"}' } }] }),
+                event({ tool_calls: [{ index: 0, function: { arguments: 'ess":"0x1"}' } }] }),
+                'data: [DONE]',
+            ].join('\n\n');
+
+            // Split mid-line, including inside the JSON payloads
+            reply = stream(lines.match(/[\s\S]{1,40}/g)!);
+
+            expect((await sendStreamed()).turn).toEqual({
+                text: '',
+                toolCalls: [
+                    { id: 'call-1', name: 'getAddressInfo', args: { address: '0x1' } },
+                    { id: 'call-2', name: 'getAddressInfo', args: { address: '0x2' } },
+                ]
+            });
+        });
+    });
+});
@@ -0,0 +1,240 @@
+import type { Schema } from '@google/genai';
+
+import { debug } from '../debug';
+import type { LLMProvider, Message, ModelTurn, ToolCall } from './types';
+
+// Ollama's default; llama.cpp's server listens on http://localhost:8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+type OpenAIToolCall = {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+};
+
+type OpenAIMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+type ChatCompletion = {
+    choices?: {
+        message?: {
+            content?: string | null;
+            tool_calls?: OpenAIToolCall[];
+        };
+    }[];
+};
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower-case
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => ({
+    ...(schema.type ? { type: schema.type.toLowerCase() } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+    ...(schema.properties ? {
+        properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        )
+    } : {}),
+});
+
+// Gemini does not always assign call ids, OpenAI-style APIs require them
+const callId = (call: ToolCall, index: number) => call.id ?? `call_${index}`;
+
+export const toOpenAIMessages = (message: Message): OpenAIMessage[] => {
+    switch (message.role) {
+        case 'user':
+            return [{ role: 'user', content: message.text }];
+        case 'model':
+            return [{
+                role: 'assistant',
+                content: message.text || null,
+                ...(message.toolCalls.length > 0 ? {
+                    tool_calls: message.toolCalls.map((call, index) => ({
+                        id: callId(call, index),
+                        type: 'function',
+                        function: { name: call.name, arguments: JSON.stringify(call.args) }
+                    }))
+                } : {})
+            }];
+        case 'tool':
+            return message.results.map((result, index) => ({
+                role: 'tool',
+                tool_call_id: result.id ?? `call_${index}`,
+                content: JSON.stringify(result.result)
+            }));
+    }
+};
+
+// One server-sent event of a streamed completion; tool calls arrive as fragments keyed by index
+type ChatCompletionChunk = {
+    choices?: {
+        delta?: {
+            content?: string | null;
+            tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+        };
+    }[];
+};
+
+// Yields the lines of a stream, accepting LF and CRLF line endings
+async function* readLines(body: ReadableStream<Uint8Array>) {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of body) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop()!;
+
+        yield* lines;
+    }
+
+    // The last event need not end with a newline
+    buffer = (buffer + decoder.decode()).replace(/\r$/, '');
+
+    if (buffer) {
+        yield buffer;
+    }
+}
+
+// Yields the JSON payload of every `data:` line until [DONE]
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+    for await (const line of readLines(body)) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+
+        if (data === '[DONE]') {
+            return;
+        }
+
+        if (data) {
+            yield JSON.parse(data) as ChatCompletionChunk;
+        }
+    }
+}
+
+// Reassembles a streamed completion into the shape of a non-streamed one
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (delta: string) => void) => {
+    let content = '';
+    const toolCalls: OpenAIToolCall[] = [];
+
+    for await (const chunk of readEvents(body)) {
+        const delta = chunk.choices?.[0]?.delta;
+
+        if (delta?.content) {
+            content += delta.content;
+            onText(delta.content);
+        }
+
+        for (const fragment of delta?.tool_calls ?? []) {
+            const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+
+            call.id = fragment.id ?? call.id;
+            call.function.name += fragment.function?.name ?? '';
+            call.function.arguments += fragment.function?.arguments ?? '';
+        }
+    }
+
+    return { content, tool_calls: toolCalls.filter(Boolean) };
+};
+
+const parseArguments = (json: string): Record<string, unknown> => {
+    try {
+        const args = JSON.parse(json || '{}');
+
+        return typeof args === 'object' && args !== null ? args : {};
+    } catch {
+        debug('Model produced invalid tool arguments', json);
+        return {};
+    }
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API with tool
+ * calling, e.g. a local llama.cpp or Ollama instance.
+ */
+export const createOpenAIProvider = ({ baseUrl = DEFAULT_OPENAI_BASE_URL, apiKey, model }: { baseUrl?: string; apiKey?: string; model: string }): LLMProvider => {
+    const endpoint = new URL('chat/completions', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+
+    const provider: LLMProvider = {
+        name: 'openai',
+        model,
+        createSession({ systemPrompt, tools, history = [] }) {
+            const log = [...history];
+            const openAITools = tools.map((tool) => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters ? toJsonSchema(tool.parameters) : { type: 'object', properties: {} }
+                }
+            }));
+
+            return {
+                async send(input, { onText, signal } = {}) {
+                    const message: Message = typeof input === 'string'
+                        ? { role: 'user', text: input }
+                        : { role: 'tool', results: input };
+                    const messages: OpenAIMessage[] = [
+                        { role: 'system', content: systemPrompt },
+                        ...[...log, message].flatMap(toOpenAIMessages)
+                    ];
+
+                    debug(`POST ${endpoint}`, { model: provider.model, messages: messages.length });
+                    const response = await fetch(endpoint, {
+                        method: 'POST',
+                        signal,
+                        headers: {
+                            'Content-Type': 'application/json',
+                            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+                        },
+                        body: JSON.stringify({
+                            model: provider.model,
+                            messages,
+                            tools: openAITools,
+                            tool_choice: 'auto',
+                            stream: !!onText
+                        })
+                    });
+
+                    if (!response.ok) {
+                        throw new Error(`${endpoint} responded with ${response.status} ${response.statusText}`);
+                    }
+
+                    let reply: NonNullable<ChatCompletion['choices']>[number]['message'];
+
+                    if (onText && response.body) {
+                        reply = await readStream(response.body, onText);
+                        debug('Streamed chat completion received', reply);
+                    } else {
+                        const completion = await response.json() as ChatCompletion;
+                        debug('Chat completion received', completion);
+
+                        reply = completion.choices?.[0]?.message;
+                    }
+
+                    const turn: ModelTurn = {
+                        text: reply?.content ?? '',
+                        toolCalls: (reply?.tool_calls ?? []).map((call) => ({
+                            id: call.id || undefined,
+                            name: call.function.name,
+                            args: parseArguments(call.function.arguments)
+                        }))
+                    };
+
+                    log.push(message, { role: 'model', ...turn });
+
+                    return turn;
+                },
+                getHistory: () => [...log],
+                rewind(length) {
+                    log.length = Math.min(length, log.length);
+                },
+            };
+        },
+    };
+
+    return provider;
+};
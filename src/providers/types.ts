@@ -0,0 +1,53 @@
+import type { FunctionDeclaration } from '@google/genai';
+
+export type ToolCall = {
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+};
+
+export type ToolResult = {
+    id?: string;
+    name: string;
+    result: unknown;
+};
+
+// One reply from the model: any text it wrote plus the tools it wants called
+export type ModelTurn = {
+    text: string;
+    toolCalls: ToolCall[];
+};
+
+// Provider-neutral conversation history
+export type Message =
+    | { role: 'user'; text: string }
+    | { role: 'model'; text: string; toolCalls: ToolCall[] }
+    | { role: 'tool'; results: ToolResult[] };
+
+export type SessionOptions = {
+    systemPrompt: string;
+    // Tools are declared in Gemini's schema format; other providers convert them
+    tools: FunctionDeclaration[];
+    history?: Message[];
+};
+
+export type SendOptions = {
+    // Streams the reply: called with each piece of text as it arrives
+    onText?: (delta: string) => void;
+    // Cancels the request
+    signal?: AbortSignal;
+};
+
+export type ChatSession = {
+    // Sends a user message, or the results of the tool calls from the previous turn
+    send: (input: string | ToolResult[], options?: SendOptions) => Promise<ModelTurn>;
+    getHistory: () => Message[];
+    // Drops every message after the first `length`, e.g. to undo a cancelled question
+    rewind: (length: number) => void;
+};
+
+export type LLMProvider = {
+    name: string;
+    model: string;
+    createSession: (options: SessionOptions) => ChatSession;
+};
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { listSessions, loadSession, saveSession, type SavedSession } from './sessions';
+
+const session = (id: string, updatedAt: string): SavedSession => ({
+    id,
+    createdAt: updatedAt,
+    updatedAt,
+    chain: 'ethereum',
+    provider: 'gemini',
+    model: 'gemini-2.0-flash',
+    history: [{ role: 'user', text: `question ${id}` }, { role: 'model', text: 'answer', toolCalls: [] }]
+});
+
+let directory: string;
+
+beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'blockscout-sessions-'));
+});
+
+afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+});
+
+describe('saveSession', () => {
+    test('round-trips a session and leaves no temporary files', () => {
+        const saved = session('20261019-101500-aaaa', '2026-10-19T10:15:00.000Z');
+
+        saveSession(saved, directory);
+
+        expect(readdirSync(directory)).toEqual(['20261019-101500-aaaa.json']);
+        expect(loadSession('20261019-101500-aaaa', directory)).toEqual(saved);
+    });
+
+    test('overwrites the previous save of the same session', () => {
+        saveSession(session('20261019-101500-aaaa', '2026-10-19T10:15:00.000Z'), directory);
+        saveSession({ ...session('20261019-101500-aaaa', '2026-10-19T10:20:00.000Z'), title: 'Renamed' }, directory);
+
+        expect(listSessions(directory)).toMatchObject([{ title: 'Renamed', updatedAt: '2026-10-19T10:20:00.000Z' }]);
+    });
+});
+
+describe('listSessions', () => {
+    test('returns nothing for a missing directory', () => {
+        expect(listSessions(join(directory, 'missing'))).toEqual([]);
+    });
+
+    test('sorts newest first and skips corrupt or foreign files', () => {
+        saveSession(session('20261018-090000-bbbb', '2026-10-18T09:00:00.000Z'), directory);
+        saveSession(session('20261019-101500-aaaa', '2026-10-19T10:15:00.000Z'), directory);
+        writeFileSync(join(directory, 'truncated.json'), '{"id": "20261019-1');
+        writeFileSync(join(directory, 'other.json'), '{"name": "not a session"}');
+
+        expect(listSessions(directory).map((saved) => saved.id)).toEqual(['20261019-101500-aaaa', '20261018-090000-bbbb']);
+    });
+
+    test('skips sessions with missing fields or malformed messages', () => {
+        const saved = session('20261019-101500-aaaa', '2026-10-19T10:15:00.000Z');
+        const { chain, ...withoutChain } = session('20261018-090000-bbbb', '2026-10-18T09:00:00.000Z');
+
+        saveSession(saved, directory);
+        writeFileSync(join(directory, 'x1.json'), JSON.stringify({ id: 'x1', updatedAt: '2026-10-19T11:00:00.000Z', history: [] }));
+        writeFileSync(join(directory, 'no-chain.json'), JSON.stringify(withoutChain));
+        writeFileSync(join(directory, 'numeric-model.json'), JSON.stringify({ ...saved, id: 'numeric-model', model: 4 }));
+
+        for (const [id, message] of [
+            ['unknown-role', { role: 'system', text: chain }],
+            ['model-without-calls', { role: 'model', text: 'answer' }],
+            ['nameless-call', { role: 'model', text: '', toolCalls: [{ args: {} }] }],
+            ['results-not-a-list', { role: 'tool', results: { name: 'getNetworkStats' } }],
+        ] as const) {
+            writeFileSync(join(directory, `${id}.json`), JSON.stringify({ ...saved, id, history: [...saved.history, message] }));
+        }
+
+        expect(listSessions(directory).map((listed) => listed.id)).toEqual(['20261019-101500-aaaa']);
+        expect(() => loadSession('x1', directory)).toThrow('No saved session "x1"');
+    });
+});
+
+describe('loadSession', () => {
+    beforeEach(() => {
+        saveSession(session('20261018-090000-bbbb', '2026-10-18T09:00:00.000Z'), directory);
+        saveSession(session('20261019-101500-aaaa', '2026-10-19T10:15:00.000Z'), directory);
+        saveSession(session('20261019-113000-cccc', '2026-10-19T09:30:00.000Z'), directory);
+    });
+
+    test('accepts a unique id prefix', () => {
+        expect(loadSession('20261018', directory).id).toBe('20261018-090000-bbbb');
+    });
+
+    test('rejects ambiguous and unknown prefixes', () => {
+        expect(() => loadSession('20261019', directory)).toThrow('"20261019" matches 2 sessions, be more specific');
+        expect(() => loadSession('2025', directory)).toThrow('No saved session "2025"');
+    });
+
+    test('loads the most recently updated session as "latest"', () => {
+        expect(loadSession('latest', directory).id).toBe('20261019-101500-aaaa');
+    });
+
+    test('explains that there is no "latest" without sessions', () => {
+        rmSync(directory, { recursive: true, force: true });
+
+        expect(() => loadSession('latest', directory)).toThrow('There are no saved sessions yet');
+    });
+});
@@ -0,0 +1,122 @@
+import { randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+import { debug } from './debug';
+import type { Message, ToolCall } from './providers';
+
+/**
+ * A conversation as stored on disk. The history holds every question and
+ * answer together with the tool calls and their results.
+ */
+export type SavedSession = {
+    id: string;
+    title?: string;
+    createdAt: string;
+    updatedAt: string;
+    chain: string;
+    provider: string;
+    model: string;
+    history: Message[];
+};
+
+// Override with SESSIONS_DIR=/path/to/sessions
+export const SESSIONS_DIR = process.env.SESSIONS_DIR || join(homedir(), '.blockscout-chat', 'sessions');
+
+// Sortable and readable: 20261019-183012-3fa9
+export const newSessionId = () =>
+    `${new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)}-${randomBytes(2).toString('hex')}`;
+
+const isToolCall = (value: any): value is ToolCall =>
+    typeof value?.name === 'string' &&
+    typeof value.args === 'object' &&
+    value.args !== null;
+
+const isMessage = (value: any): value is Message => {
+    switch (value?.role) {
+        case 'user':
+            return typeof value.text === 'string';
+        case 'model':
+            return typeof value.text === 'string' && Array.isArray(value.toolCalls) && value.toolCalls.every(isToolCall);
+        case 'tool':
+            return Array.isArray(value.results) && value.results.every((result: any) => typeof result?.name === 'string');
+        default:
+            return false;
+    }
+};
+
+// Everything /sessions and /load read, so a hand-edited or foreign file is skipped instead of crashing them
+const isSavedSession = (value: any): value is SavedSession =>
+    typeof value?.id === 'string' &&
+    (value.title === undefined || typeof value.title === 'string') &&
+    typeof value.createdAt === 'string' &&
+    typeof value.updatedAt === 'string' &&
+    typeof value.chain === 'string' &&
+    typeof value.provider === 'string' &&
+    typeof value.model === 'string' &&
+    Array.isArray(value.history) &&
+    value.history.every(isMessage);
+
+export const saveSession = (session: SavedSession, directory = SESSIONS_DIR) => {
+    const file = join(directory, `${session.id}.json`);
+    const temporary = `${file}.${process.pid}.tmp`;
+
+    mkdirSync(directory, { recursive: true });
+    // Written aside and renamed into place, so an interrupted save never leaves half a session behind
+    writeFileSync(temporary, JSON.stringify(session, null, 2) + '\n');
+    renameSync(temporary, file);
+    debug(`Saved session ${session.id}`, { messages: session.history.length });
+};
+
+const readSession = (file: string): SavedSession | undefined => {
+    try {
+        const session = JSON.parse(readFileSync(file, 'utf8'));
+
+        if (isSavedSession(session)) {
+            return session;
+        }
+
+        debug(`Skipping ${file}: not a saved session`);
+    } catch (error) {
+        debug(`Skipping unreadable session ${file}`, error instanceof Error ? error.message : error);
+    }
+
+    return undefined;
+};
+
+// Newest first; unreadable or corrupt files are skipped
+export const listSessions = (directory = SESSIONS_DIR): SavedSession[] => {
+    if (!existsSync(directory)) {
+        return [];
+    }
+
+    return readdirSync(directory)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => readSession(join(directory, file)))
+        .filter((session): session is SavedSession => session !== undefined)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Accepts a full id, a unique id prefix or "latest"
+export const loadSession = (id: string, directory = SESSIONS_DIR): SavedSession => {
+    const sessions = listSessions(directory);
+
+    if (id === 'latest') {
+        const latest = sessions[0];
+
+        if (!latest) {
+            throw new Error('There are no saved sessions yet');
+        }
+
+        return latest;
+    }
+
+    const matches = sessions.filter((session) => session.id.startsWith(id));
+
+    if (matches.length !== 1) {
+        throw new Error(matches.length === 0 ? `No saved session "${id}"` : `"${id}" matches ${matches.length} sessions, be more specific`);
+    }
+
+    return matches[0]!;
+};
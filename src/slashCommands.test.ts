@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+
+import { parseChainRegistry } from './chains';
+import { DEBUG, setDebug } from './debug';
+import { createScriptedProvider } from './providers/fake';
+import type { ReplState } from './slashCommands';
+
+// The tools import the Blockscout client; none of these commands makes a request
+mock.module('./api', () => ({
+    getApi: () => {
+        throw new Error('No requests in slash command tests');
+    },
+}));
+
+const { createSession, isSlashCommand, runSlashCommand } = await import('./slashCommands');
+const { createToolContext } = await import('./tools');
+
+const registry = parseChainRegistry({
+    chains: [['ethereum', 1], ['base', 8453]].map(([name, chainId]) => ({
+        name,
+        chainId,
+        blockscoutUrl: `https://${name}.blockscout.com/api/v2/`,
+        nativeCurrency: { symbol: 'ETH', decimals: 18 },
+    })),
+});
+
+// A REPL that has answered one question and holds one cursor
+const startRepl = async (): Promise<ReplState> => {
+    const provider = createScriptedProvider([{ text: 'Hello!' }, { text: 'Still here.' }]);
+    const state: ReplState = {
+        provider,
+        session: createSession(provider),
+        context: createToolContext(registry.defaultChain, registry),
+        sessionId: '20261019-101500-aaaa',
+        createdAt: '2026-10-19T10:15:00.000Z',
+        title: 'Greeting',
+    };
+
+    await state.session.send('hi');
+    state.context.cursors.save(async () => []);
+
+    return state;
+};
+
+let spies: Record<'log' | 'error', ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+    spies = {
+        log: spyOn(console, 'log').mockImplementation(() => {}),
+        error: spyOn(console, 'error').mockImplementation(() => {}),
+    };
+});
+
+afterEach(() => {
+    Object.values(spies).forEach((spy) => spy.mockRestore());
+    setDebug(false);
+});
+
+// Everything one console method printed, one line per call
+const printed = (spy: ReturnType<typeof spyOn>) => spy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+
+describe('runSlashCommand', () => {
+    test('recognises slash commands after leading spaces only', () => {
+        expect(isSlashCommand('  /help')).toBe(true);
+        expect(isSlashCommand('what is /stats?')).toBe(false);
+    });
+
+    test('matches command names case-insensitively and trims the argument', async () => {
+        const state = await startRepl();
+
+        await runSlashCommand(state, '  /CHAIN   base  ');
+
+        expect(state.context.chain.name).toBe('base');
+    });
+
+    test('explains unknown commands without touching the conversation', async () => {
+        const state = await startRepl();
+        const { session } = state;
+
+        expect(await runSlashCommand(state, '/balance 0x1')).toBeUndefined();
+
+        expect(printed(spies.error)).toBe('❌ Unknown command: /balance. Type /help for a list of commands.\n');
+        expect(state.session).toBe(session);
+    });
+
+    test('reports errors thrown by a command instead of ending the chat', async () => {
+        const state = await startRepl();
+
+        state.session.getHistory = () => {
+            throw new Error('history unavailable');
+        };
+
+        expect(await runSlashCommand(state, '/history')).toBeUndefined();
+        expect(printed(spies.error)).toBe('❌ Error: history unavailable\n');
+    });
+
+    test('/exit ends the chat', async () => {
+        expect(await runSlashCommand(await startRepl(), '/exit')).toBe('exit');
+    });
+});
+
+describe('/clear', () => {
+    test('starts a new, empty session with fresh cursors and id', async () => {
+        const state = await startRepl();
+
+        await runSlashCommand(state, '/clear');
+
+        expect(state.session.getHistory()).toEqual([]);
+        expect(state.context.cursors.get('cursor-1')).toBeUndefined();
+        expect(state.sessionId).not.toBe('20261019-101500-aaaa');
+        expect(state.sessionId).toMatch(/^\d{8}-\d{6}-[0-9a-f]{4}$/);
+        expect(state.title).toBeUndefined();
+        expect(state.createdAt).not.toBe('2026-10-19T10:15:00.000Z');
+    });
+});
+
+describe('/model', () => {
+    test('switches the model and keeps the conversation', async () => {
+        const state = await startRepl();
+        const history = state.session.getHistory();
+
+        await runSlashCommand(state, '/model gpt-4o-mini');
+
+        expect(state.provider.model).toBe('gpt-4o-mini');
+        expect(state.session.getHistory()).toEqual(history);
+        expect(printed(spies.log)).toBe('🧠 Model: gpt-4o-mini (fake)\n');
+
+        await state.session.send('still there?');
+        expect(state.session.getHistory()).toHaveLength(4);
+    });
+
+    test('shows the model without an argument', async () => {
+        const state = await startRepl();
+        const { session } = state;
+
+        await runSlashCommand(state, '/model');
+
+        expect(state.session).toBe(session);
+        expect(printed(spies.log)).toBe('🧠 Model: scripted (fake)\n');
+    });
+});
+
+describe('/chain', () => {
+    test('changes the default chain by name or chain id', async () => {
+        const state = await startRepl();
+
+        await runSlashCommand(state, '/chain 8453');
+
+        expect(state.context.chain.name).toBe('base');
+        expect(printed(spies.log)).toBe('⛓️  Default chain set to base\n');
+    });
+
+    test('leaves the chain unchanged for unknown names', async () => {
+        const state = await startRepl();
+
+        await runSlashCommand(state, '/chain solana');
+
+        expect(state.context.chain.name).toBe('ethereum');
+        expect(printed(spies.error)).toBe('❌ Unknown chain: solana\n');
+    });
+
+    test('lists the configured chains without an argument', async () => {
+        await runSlashCommand(await startRepl(), '/chain');
+
+        expect(printed(spies.log)).toBe('⛓️  Default chain: ethereum (chain id 1)\n   Available: ethereum, base\n');
+    });
+});
+
+describe('/debug', () => {
+    test('turns debug logging on and off', async () => {
+        const state = await startRepl();
+
+        await runSlashCommand(state, '/debug on');
+        expect(DEBUG).toBe(true);
+
+        await runSlashCommand(state, '/debug off');
+        expect(DEBUG).toBe(false);
+        expect(printed(spies.log)).toBe('🐛 Debug logging is on\n\n🐛 Debug logging is off\n');
+    });
+
+    test('shows the setting without an argument', async () => {
+        await runSlashCommand(await startRepl(), '/debug');
+
+        expect(printed(spies.log)).toBe('🐛 Debug logging is off\n');
+    });
+
+    test('rejects other arguments and keeps the setting', async () => {
+        await runSlashCommand(await startRepl(), '/debug yes');
+
+        expect(DEBUG).toBe(false);
+        expect(printed(spies.error)).toBe('❌ Usage: /debug on|off\n');
+        expect(spies.log).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,295 @@
+import { writeFileSync } from 'fs';
+
+import { responseCache } from './api/cache';
+import { findChain } from './chains';
+import { DEBUG, debug, setDebug } from './debug';
+import { EXPORT_FORMATS, renderReport, type ExportFormat } from './export';
+import { SYSTEM_PROMPT } from './prompt';
+import type { ChatSession, LLMProvider, Message } from './providers';
+import { listSessions, loadSession, newSessionId, saveSession, type SavedSession } from './sessions';
+import { functionDeclarations, tools, type ToolContext } from './tools';
+
+/**
+ * Everything a slash command may inspect or change in the running REPL.
+ */
+export type ReplState = {
+    provider: LLMProvider;
+    session: ChatSession;
+    context: ToolContext;
+    // Identifies the conversation on disk
+    sessionId: string;
+    createdAt: string;
+    title?: string;
+};
+
+export type SlashCommand = {
+    usage: string;
+    description: string;
+    // Returning 'exit' ends the chat
+    run: (state: ReplState, argument: string) => void | 'exit' | Promise<void | 'exit'>;
+};
+
+export const createSession = (provider: LLMProvider, history?: Message[]) => provider.createSession({
+    systemPrompt: SYSTEM_PROMPT,
+    tools: functionDeclarations,
+    history,
+});
+
+export const snapshotSession = (state: ReplState): SavedSession => ({
+    id: state.sessionId,
+    title: state.title,
+    createdAt: state.createdAt,
+    updatedAt: new Date().toISOString(),
+    chain: state.context.chain.name,
+    provider: state.provider.name,
+    model: state.provider.model,
+    history: state.session.getHistory(),
+});
+
+// Continues a saved conversation in the running REPL
+export const restoreSession = (state: ReplState, saved: SavedSession) => {
+    const chain = findChain(state.context.registry, saved.chain);
+
+    if (chain) {
+        state.context.chain = chain;
+    } else {
+        console.error(`⚠️  Chain "${saved.chain}" is not configured, staying on ${state.context.chain.name}`);
+    }
+
+    // Models only carry over within the same provider
+    if (saved.provider === state.provider.name) {
+        state.provider.model = saved.model;
+    }
+
+    state.session = createSession(state.provider, saved.history);
+    state.context.cursors.clear();
+    state.sessionId = saved.id;
+    state.createdAt = saved.createdAt;
+    state.title = saved.title;
+};
+
+const sessionTitle = (session: SavedSession) =>
+    session.title ?? session.history.find((message) => message.role === 'user')?.text ?? '(empty)';
+
+const truncate = (text: string, length = 120) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const describeMessage = (message: Message) => {
+    switch (message.role) {
+        case 'user':
+            return `🧑 You: ${message.text}`;
+        case 'model':
+            return [
+                ...(message.text ? [`🤖 Assistant: ${truncate(message.text.replace(/\s+/g, ' '))}`] : []),
+                ...message.toolCalls.map((call) => `🔧 ${call.name}(${JSON.stringify(call.args)})`),
+            ].join('\n');
+        case 'tool':
+            return message.results.map((result) => `📦 ${result.name} → ${truncate(JSON.stringify(result.result) ?? '')}`).join('\n');
+    }
+};
+
+export const slashCommands: Record<string, SlashCommand> = {
+    help: {
+        usage: '/help',
+        description: 'List available commands',
+        run() {
+            for (const command of Object.values(slashCommands)) {
+                console.log(`  ${command.usage.padEnd(24)} ${command.description}`);
+            }
+            console.log();
+        },
+    },
+    clear: {
+        usage: '/clear',
+        description: 'Start over with an empty conversation',
+        run(state) {
+            state.session = createSession(state.provider);
+            state.context.cursors.clear();
+            state.sessionId = newSessionId();
+            state.createdAt = new Date().toISOString();
+            state.title = undefined;
+            console.log('🧹 Conversation cleared\n');
+        },
+    },
+    history: {
+        usage: '/history',
+        description: 'Show the conversation so far, including tool calls',
+        run({ session }) {
+            const history = session.getHistory();
+
+            if (history.length === 0) {
+                console.log('📜 No messages yet\n');
+                return;
+            }
+
+            console.log(history.map(describeMessage).join('\n') + '\n');
+        },
+    },
+    tools: {
+        usage: '/tools',
+        description: 'List the tools the assistant can call',
+        run() {
+            for (const tool of tools) {
+                console.log(`  🔧 ${tool.name}: ${tool.description}`);
+            }
+            console.log();
+        },
+    },
+    debug: {
+        usage: '/debug on|off',
+        description: 'Toggle verbose debug logging',
+        run(_state, argument) {
+            if (argument === 'on' || argument === 'off') {
+                setDebug(argument === 'on');
+            } else if (argument) {
+                console.error('❌ Usage: /debug on|off\n');
+                return;
+            }
+
+            console.log(`🐛 Debug logging is ${DEBUG ? 'on' : 'off'}\n`);
+        },
+    },
+    model: {
+        usage: '/model <name>',
+        description: 'Show or switch the model, keeping the conversation',
+        run(state, argument) {
+            if (argument) {
+                state.provider.model = argument;
+                state.session = createSession(state.provider, state.session.getHistory());
+                debug('Model changed', { provider: state.provider.name, model: argument });
+            }
+
+            console.log(`🧠 Model: ${state.provider.model} (${state.provider.name})\n`);
+        },
+    },
+    chain: {
+        usage: '/chain <name>',
+        description: 'Show or change the default chain',
+        run({ context }, argument) {
+            if (!argument) {
+                console.log(`⛓️  Default chain: ${context.chain.name} (chain id ${context.chain.chainId})`);
+                console.log(`   Available: ${context.registry.chains.map((chain) => chain.name).join(', ')}\n`);
+                return;
+            }
+
+            const chain = findChain(context.registry, argument);
+
+            if (!chain) {
+                console.error(`❌ Unknown chain: ${argument}\n`);
+                return;
+            }
+
+            context.chain = chain;
+            debug('Default chain changed', chain);
+            console.log(`⛓️  Default chain set to ${chain.name}\n`);
+        },
+    },
+    save: {
+        usage: '/save [title]',
+        description: 'Save the conversation (it is also saved after every answer)',
+        run(state, argument) {
+            if (argument) {
+                state.title = argument;
+            }
+
+            saveSession(snapshotSession(state));
+            console.log(`💾 Saved session ${state.sessionId}\n`);
+        },
+    },
+    load: {
+        usage: '/load <id>',
+        description: 'Continue a saved conversation (id, id prefix or "latest")',
+        run(state, argument) {
+            if (!argument) {
+                console.error('❌ Usage: /load <id>\n');
+                return;
+            }
+
+            const saved = loadSession(argument);
+
+            restoreSession(state, saved);
+            console.log(`📂 Loaded session ${saved.id}: ${truncate(sessionTitle(saved), 60)} (${saved.history.length} messages, ${state.context.chain.name})\n`);
+        },
+    },
+    sessions: {
+        usage: '/sessions',
+        description: 'List saved conversations',
+        run() {
+            const sessions = listSessions();
+
+            if (sessions.length === 0) {
+                console.log('📂 No saved sessions yet\n');
+                return;
+            }
+
+            for (const session of sessions) {
+                console.log(`  ${session.id}  ${session.updatedAt.slice(0, 16).replace('T', ' ')}  ${session.chain.padEnd(10)} ${truncate(sessionTitle(session), 60)}`);
+            }
+            console.log();
+        },
+    },
+    export: {
+        usage: '/export md|html <file>',
+        description: 'Write the conversation as a Markdown or HTML report',
+        run(state, argument) {
+            const [format, file] = argument.split(/\s+(.*)/);
+
+            if (!EXPORT_FORMATS.includes(format as ExportFormat) || !file) {
+                console.error('❌ Usage: /export md|html <file>\n');
+                return;
+            }
+
+            writeFileSync(file, renderReport(format as ExportFormat, snapshotSession(state)));
+            console.log(`📄 Exported ${state.session.getHistory().length} messages to ${file}\n`);
+        },
+    },
+    cache: {
+        usage: '/cache stats|clear',
+        description: 'Show or clear the Blockscout response cache',
+        run(_state, argument) {
+            if (argument === 'clear') {
+                responseCache.clear();
+                console.log('🧹 Response cache cleared\n');
+                return;
+            }
+
+            if (argument && argument !== 'stats') {
+                console.error('❌ Usage: /cache stats|clear\n');
+                return;
+            }
+
+            const { entries, immutable, hits, misses, directory } = responseCache.stats();
+            const lookups = hits + misses;
+
+            console.log(`🗄️  ${entries} cached responses (${immutable} immutable, ${entries - immutable} with a TTL)`);
+            console.log(`   ${hits} hits, ${misses} misses${lookups > 0 ? ` (${Math.round(hits / lookups * 100)}% hit rate)` : ''}`);
+            console.log(`   ${directory ? `Also stored in ${directory}` : 'In memory only (set BLOCKSCOUT_CACHE_DIR to keep it on disk)'}\n`);
+        },
+    },
+    exit: {
+        usage: '/exit',
+        description: 'Quit',
+        run: () => 'exit',
+    },
+};
+
+export const isSlashCommand = (input: string) => input.trimStart().startsWith('/');
+
+// Runs "/name argument"; unknown commands print a hint instead of reaching the model
+export async function runSlashCommand(state: ReplState, input: string) {
+    const [, name = '', argument = ''] = input.trim().match(/^\/(\S*)\s*(.*)$/) ?? [];
+    const command = slashCommands[name.toLowerCase()];
+
+    debug(`Slash command: /${name}`, { argument });
+
+    if (!command) {
+        console.error(`❌ Unknown command: /${name}. Type /help for a list of commands.\n`);
+        return;
+    }
+
+    try {
+        return await command.run(state, argument.trim());
+    } catch (error) {
+        debug(`Error in /${name}`, error);
+        console.error(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    }
+}
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+
+import type { Chain } from './chains';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const block = (height: number) => ({ height, hash: `0x${height.toString(16).padStart(64, '0')}`, timestamp: '2026-10-19T10:00:00Z', transaction_count: 100, gas_used: '1', gas_limit: '2', miner: { hash: VITALIK } });
+
+// Canned Blockscout responses keyed by path template; an Error is thrown
+const responses: Record<string, { status: number; data: unknown } | Error> = {};
+const apiCalls: { path: string; options: unknown }[] = [];
+
+mock.module('./api', () => ({
+    getApi: () => async (path: string, _method: string, options: unknown) => {
+        apiCalls.push({ path, options });
+
+        const response = responses[path];
+
+        if (!response) {
+            throw new Error(`No canned response for ${path}`);
+        }
+
+        if (response instanceof Error) {
+            throw response;
+        }
+
+        return response;
+    },
+}));
+
+const { runSubcommand, subcommands } = await import('./subcommands');
+
+let spies: Record<'log' | 'error' | 'table', ReturnType<typeof spyOn>>;
+
+beforeEach(() => {
+    apiCalls.length = 0;
+    spies = {
+        log: spyOn(console, 'log').mockImplementation(() => {}),
+        error: spyOn(console, 'error').mockImplementation(() => {}),
+        table: spyOn(console, 'table').mockImplementation(() => {}),
+    };
+    responses['/blocks'] = { status: 200, data: { items: [block(3), block(2), block(1)], next_page_params: null } };
+    responses['/stats'] = { status: 200, data: { total_blocks: '100', total_transactions: '200', average_block_time: 12000 } };
+});
+
+afterEach(() => {
+    Object.values(spies).forEach((spy) => spy.mockRestore());
+    process.exitCode = 0;
+
+    for (const path of Object.keys(responses)) {
+        delete responses[path];
+    }
+});
+
+const run = (name: string, positionals: string[] = [], options: { count?: string; limit?: string; json?: boolean } = {}) =>
+    runSubcommand(name, positionals, { chain: ethereum, json: false, ...options });
+
+// Everything written to stderr, one string per call
+const stderr = () => spies.error.mock.calls.map((call: unknown[]) => call.join(' '));
+
+describe('subcommand arguments', () => {
+    test('maps positionals to the tool arguments', () => {
+        expect(subcommands.address!.args([VITALIK], {})).toEqual({ address: VITALIK });
+        expect(subcommands.token!.args([VITALIK], {})).toEqual({ tokenAddress: VITALIK });
+        expect(subcommands.tx!.args(['0xabc'], {})).toEqual({ txHash: '0xabc' });
+        expect(subcommands.block!.args(['19000000'], {})).toEqual({ blockId: '19000000' });
+        expect(subcommands.stats!.args(['ignored'], {})).toEqual({});
+    });
+
+    test('joins a multi-word search query', () => {
+        expect(subcommands.search!.args(['usd', 'coin'], { limit: '3' })).toEqual({ query: 'usd coin', limit: '3' });
+    });
+
+    test('passes --count and --limit to the tools that take them', () => {
+        expect(subcommands.blocks!.args([], { count: '2', limit: '9' })).toEqual({ count: '2' });
+        expect(subcommands.txs!.args([VITALIK], { count: '9', limit: '2' })).toEqual({ address: VITALIK, limit: '2' });
+    });
+
+    test('every subcommand names a registered tool', async () => {
+        const { findTool } = await import('./tools');
+
+        for (const subcommand of Object.values(subcommands)) {
+            expect(findTool(subcommand.tool)?.name).toBe(subcommand.tool);
+        }
+    });
+});
+
+describe('runSubcommand', () => {
+    test('prints list results as a table of rows', async () => {
+        await run('blocks', [], { count: '2' });
+
+        expect(spies.table).toHaveBeenCalledTimes(1);
+        expect((spies.table.mock.calls[0]![0] as { number: number }[]).map((row) => row.number)).toEqual([3, 2]);
+        expect(process.exitCode).toBe(0);
+    });
+
+    test('prints single results as a table of fields', async () => {
+        await run('stats');
+
+        expect(spies.table.mock.calls[0]![0]).toMatchObject({ totalBlocks: '100', averageBlockTime: 12000 });
+    });
+
+    test('prints the raw result as JSON with --json', async () => {
+        await run('blocks', [], { count: '2', json: true });
+
+        expect(spies.table).not.toHaveBeenCalled();
+        expect(JSON.parse(spies.log.mock.calls[0]![0] as string)).toMatchObject({ items: [{ number: 3 }, { number: 2 }] });
+    });
+
+    test('rejects unknown commands with the command list', async () => {
+        await run('balance', [VITALIK]);
+
+        expect(stderr()[0]).toStartWith('❌ Unknown command: balance\n\nCommands:\n');
+        expect(stderr()[0]).toContain('address <address>');
+        expect(process.exitCode).toBe(1);
+        expect(apiCalls).toEqual([]);
+    });
+
+    test('reports unusable arguments on stderr without a request', async () => {
+        await run('address', ['0x1234']);
+
+        expect(stderr()).toEqual(['❌ Invalid arguments for getAddressInfo: "address" has 4 hex digits; an address has 0x followed by 40\n💡 Check that the value was copied completely.']);
+        expect(process.exitCode).toBe(1);
+        expect(spies.log).not.toHaveBeenCalled();
+        expect(apiCalls).toEqual([]);
+    });
+
+    test('reports failed requests on stderr', async () => {
+        responses['/stats'] = new Error('Request failed with status 502');
+
+        await run('stats', [], { json: true });
+
+        expect(stderr()).toEqual(['❌ Error: Request failed with status 502']);
+        expect(process.exitCode).toBe(1);
+        expect(spies.log).not.toHaveBeenCalled();
+    });
+});
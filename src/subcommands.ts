@@ -0,0 +1,147 @@
+import type { Chain } from './chains';
+import { debug } from './debug';
+import { tabulate } from './tabulate';
+import { createToolContext, executeFunction, isToolError, type ToolArgs } from './tools';
+
+export type SubcommandOptions = {
+    count?: string;
+    limit?: string;
+};
+
+/**
+ * A CLI subcommand that calls one tool directly, without the LLM.
+ */
+export type Subcommand = {
+    usage: string;
+    description: string;
+    tool: string;
+    // Maps positionals and flags to the tool's arguments
+    args: (positionals: string[], options: SubcommandOptions) => ToolArgs;
+};
+
+export const subcommands: Record<string, Subcommand> = {
+    address: {
+        usage: 'address <address>',
+        description: 'Balance, type and verification status of an address',
+        tool: 'getAddressInfo',
+        args: ([address]) => ({ address }),
+    },
+    txs: {
+        usage: 'txs <address> [--limit n]',
+        description: 'Recent transactions of an address',
+        tool: 'getAddressTransactions',
+        args: ([address], { limit }) => ({ address, limit }),
+    },
+    tokens: {
+        usage: 'tokens <address>',
+        description: 'Token balances of an address',
+        tool: 'getAddressTokenBalances',
+        args: ([address]) => ({ address }),
+    },
+    portfolio: {
+        usage: 'portfolio <address>',
+        description: 'USD valuation of native and token holdings',
+        tool: 'getAddressPortfolio',
+        args: ([address]) => ({ address }),
+    },
+    token: {
+        usage: 'token <token address>',
+        description: 'Name, symbol, supply and holders of a token',
+        tool: 'getTokenInfo',
+        args: ([tokenAddress]) => ({ tokenAddress }),
+    },
+    tx: {
+        usage: 'tx <hash>',
+        description: 'Details of a transaction',
+        tool: 'getTransactionInfo',
+        args: ([txHash]) => ({ txHash }),
+    },
+    blocks: {
+        usage: 'blocks [--count n]',
+        description: 'Latest blocks',
+        tool: 'getLatestBlocks',
+        args: (_positionals, { count }) => ({ count }),
+    },
+    block: {
+        usage: 'block <number|hash>',
+        description: 'Details of a block',
+        tool: 'getBlockInfo',
+        args: ([blockId]) => ({ blockId }),
+    },
+    search: {
+        usage: 'search <query> [--limit n]',
+        description: 'Search for ENS names, addresses, tokens, transactions and blocks',
+        tool: 'searchBlockchain',
+        args: (positionals, { limit }) => ({ query: positionals.join(' '), limit }),
+    },
+    stats: {
+        usage: 'stats',
+        description: 'Network statistics',
+        tool: 'getNetworkStats',
+        args: () => ({}),
+    },
+    lookup: {
+        usage: 'lookup <address>',
+        description: 'Where an address is active across all configured chains',
+        tool: 'lookupAddressOnAllChains',
+        args: ([address]) => ({ address }),
+    },
+};
+
+export const subcommandUsage = () => Object.values(subcommands)
+    .map((subcommand) => `  ${subcommand.usage.padEnd(32)} ${subcommand.description}`)
+    .join('\n');
+
+const printTable = (result: unknown) => {
+    if (typeof result !== 'object' || result === null) {
+        console.log(result);
+        return;
+    }
+
+    const { rows, fields } = tabulate(result);
+
+    if (!rows) {
+        console.table(fields);
+        return;
+    }
+
+    console.table(rows);
+
+    for (const [key, value] of Object.entries(fields)) {
+        console.log(`${key}: ${value}`);
+    }
+};
+
+export async function runSubcommand(name: string, positionals: string[], { chain, json, ...options }: SubcommandOptions & { chain: Chain; json: boolean }) {
+    const subcommand = subcommands[name];
+
+    if (!subcommand) {
+        console.error(`❌ Unknown command: ${name}\n\nCommands:\n${subcommandUsage()}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const args = subcommand.args(positionals, options);
+    debug(`Running subcommand ${name}`, args);
+
+    const result = await executeFunction({ name: subcommand.tool, args }, createToolContext(chain));
+
+    // Tools report failures as "❌ ..." strings, or as a ToolError when an argument was unusable
+    if (typeof result === 'string' && result.startsWith('❌')) {
+        console.error(result);
+        process.exitCode = 1;
+        return;
+    }
+
+    if (isToolError(result)) {
+        console.error(`${result.error}: ${result.problem}${result.hint ? `\n💡 ${result.hint}` : ''}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    if (json) {
+        console.log(JSON.stringify(result, null, 2));
+    } else {
+        printTable(result);
+    }
+}
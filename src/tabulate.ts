@@ -0,0 +1,50 @@
+// Nested objects become dotted columns so results fit in a flat table
+export const flatten = (value: unknown, prefix = ''): Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { [prefix || 'value']: value };
+    }
+
+    return Object.fromEntries(
+        Object.entries(value).flatMap(([key, child]) => {
+            const column = prefix ? `${prefix}.${key}` : key;
+
+            return typeof child === 'object' && child !== null && !Array.isArray(child)
+                ? Object.entries(flatten(child, column))
+                : [[column, child]];
+        })
+    );
+};
+
+export type Tabulated = {
+    // One entry per list item, when the result is a list
+    rows?: Record<string, unknown>[];
+    // Single values: the whole result for objects, the summary next to the rows for lists
+    fields: Record<string, unknown>;
+};
+
+// Splits a tool result into table rows and loose fields
+export const tabulate = (result: object): Tabulated => {
+    if (Array.isArray(result)) {
+        return { rows: result.map((row) => flatten(row)), fields: {} };
+    }
+
+    // List tools put their rows under an array of objects; everything else is a summary field
+    const rowsKey = Object.entries(result).find(([, value]) =>
+        Array.isArray(value) && value.some((row) => typeof row === 'object' && row !== null)
+    )?.[0];
+    // Cursors only mean something inside a conversation
+    const { [rowsKey ?? '']: rows, nextPageCursor, ...summary } = result as Record<string, unknown>;
+
+    if (!Array.isArray(rows)) {
+        return { fields: flatten(result) };
+    }
+
+    return {
+        rows: rows.map((row) => flatten(row)),
+        fields: Object.fromEntries(
+            Object.entries(summary)
+                .filter(([, value]) => value !== undefined && value !== null)
+                .map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value])
+        ),
+    };
+};
@@ -0,0 +1,27 @@
+import { ToolArgumentError, type ToolArgs } from './types';
+
+export const requireString = (args: ToolArgs, key: string) => {
+    const value = args[key];
+
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new ToolArgumentError(`"${key}" must be a non-empty string`, { code: 'missing_argument', argument: key, value });
+    }
+
+    return value.trim();
+};
+
+export const optionalNumber = (args: ToolArgs, key: string) => {
+    const value = args[key];
+
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    const number = typeof value === 'string' ? Number(value) : value;
+
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new ToolArgumentError(`"${key}" must be a number`, { code: 'invalid_number', argument: key, value });
+    }
+
+    return number;
+};
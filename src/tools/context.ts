@@ -0,0 +1,57 @@
+import { chainRegistry, type Chain, type ChainRegistry } from '../chains';
+
+// Continues a paginated listing with up to `limit` more items
+export type ResumeList = (limit: number) => Promise<unknown>;
+
+export type CursorStore = {
+    save: (resume: ResumeList) => string;
+    get: (id: string) => ResumeList | undefined;
+    clear: () => void;
+};
+
+export const createCursorStore = (): CursorStore => {
+    const cursors = new Map<string, ResumeList>();
+    let counter = 0;
+
+    return {
+        save(resume) {
+            const id = `cursor-${++counter}`;
+
+            cursors.set(id, resume);
+
+            return id;
+        },
+        get: (id) => cursors.get(id),
+        clear: () => cursors.clear(),
+    };
+};
+
+// Hooks for the question being answered; runChat swaps them per question
+export type RequestScope = {
+    // Called before every Blockscout request; throws to refuse it
+    beforeRequest?: () => void;
+    // Aborts pending Blockscout requests when the question is cancelled
+    signal?: AbortSignal;
+};
+
+/**
+ * State shared by all tool calls of one conversation.
+ *
+ * `chain` is the conversation's default chain; executeFunction hands each
+ * handler a copy pointing at the chain that call asked for. Copies share
+ * `scope`, so cursors saved by an earlier question follow the current one.
+ * `registry` holds the chains a call may ask for.
+ */
+export type ToolContext = {
+    cursors: CursorStore;
+    chain: Chain;
+    registry: ChainRegistry;
+    scope: RequestScope;
+};
+
+export const createToolContext = (chain: Chain, registry: ChainRegistry = chainRegistry): ToolContext => ({
+    cursors: createCursorStore(),
+    chain,
+    registry,
+    scope: {},
+});
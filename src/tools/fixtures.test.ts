@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+
+import { resolveRequest } from '../api/fixtures';
+import type { Chain } from '../chains';
+import { FIXTURES_DIR, startMockServer } from '../mock/server';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+
+const server = startMockServer({ directory: FIXTURES_DIR, port: 0 });
+
+afterAll(() => server.stop(true));
+
+// The recorded chain, served by the mock server
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: `http://localhost:${server.port}/ethereum/api/v2/`,
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+// A plain fetch client that builds URLs the way fixtures are keyed and fails like openapi-hooks on non-2xx
+mock.module('../api', () => ({
+    getApi: (chain: Chain) => async (path: string, method: string, options: Parameters<typeof resolveRequest>[1]) => {
+        const request = resolveRequest(path, options);
+        const url = new URL(request.path.slice(1), chain.blockscoutUrl);
+
+        url.search = new URLSearchParams(request.query).toString();
+
+        const response = await fetch(url, { method: method.toUpperCase() });
+        const data = await response.json();
+
+        if (!response.ok) {
+            throw Object.assign(new Error(`status ${response.status}`), { status: response.status, data });
+        }
+
+        return { status: response.status, data };
+    },
+}));
+
+const { createToolContext, findTool } = await import('.');
+
+const run = async (name: string, args: Record<string, unknown>) => {
+    const tool = findTool(name)!;
+
+    return tool.handler(tool.validate(args), createToolContext(ethereum));
+};
+
+let spies: ReturnType<typeof spyOn>[] = [];
+
+beforeEach(() => {
+    spies = [spyOn(console, 'log').mockImplementation(() => {}), spyOn(console, 'warn').mockImplementation(() => {})];
+});
+
+afterEach(() => {
+    spies.forEach((spy) => spy.mockRestore());
+});
+
+describe('tools against fixtures/ethereum', () => {
+    test('getAddressInfo', async () => {
+        expect(await run('getAddressInfo', { address: VITALIK })).toMatchObject({ address: VITALIK, chain: 'ethereum' });
+    });
+
+    test('getAddressTransactions', async () => {
+        const page = await run('getAddressTransactions', { address: VITALIK }) as { items: { hash: string }[] };
+
+        expect(page.items.length).toBeGreaterThan(0);
+        expect(page.items[0]!.hash).toStartWith('0x');
+    });
+
+    test('getAddressTokenBalances', async () => {
+        const balances = await run('getAddressTokenBalances', { address: VITALIK }) as { token: { symbol: string } }[];
+
+        expect(balances.length).toBeGreaterThan(0);
+    });
+
+    test('getTokenInfo without recorded counters', async () => {
+        expect(await run('getTokenInfo', { tokenAddress: USDC })).toMatchObject({ symbol: 'USDC', decimals: '6', transferCount: null });
+    });
+
+    test('getTransactionInfo', async () => {
+        expect(await run('getTransactionInfo', { txHash: TX_HASH })).toMatchObject({ hash: TX_HASH, chain: 'ethereum', nativeCurrency: 'ETH' });
+    });
+
+    test('getLatestBlocks follows the recorded second page', async () => {
+        const page = await run('getLatestBlocks', { count: 10 }) as { items: { number: number }[]; nextPageCursor?: string };
+        const numbers = page.items.map((block) => block.number);
+
+        // Three blocks on the first recorded page, one on the second, which is the last
+        expect(numbers).toHaveLength(4);
+        expect(numbers).toEqual([...numbers].sort((a, b) => b - a));
+        expect(page.nextPageCursor).toBeUndefined();
+    });
+
+    test('searchBlockchain', async () => {
+        const search = await run('searchBlockchain', { query: 'USDC' }) as { results: { symbol?: string }[] };
+
+        expect(search.results.some((item) => item.symbol === 'USDC')).toBe(true);
+    });
+
+    test('getNetworkStats', async () => {
+        expect(await run('getNetworkStats', {})).toMatchObject({ totalBlocks: '22652542', averageBlockTime: 12041 });
+    });
+
+    test('reports requests without a fixture as errors', async () => {
+        expect(await run('getAddressInfo', { address: '0x0000000000000000000000000000000000000001' })).toStartWith('❌');
+    });
+});
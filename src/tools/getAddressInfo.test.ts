@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import type { Chain } from '../chains';
+import { createToolContext } from './context';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const VITALIK_ADDRESS = { hash: VITALIK, coin_balance: '1000000000000000000', exchange_rate: '3000', is_contract: false, is_verified: false };
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const api = createFakeApi({
+    '/addresses/{address_hash}': { status: 200, data: VITALIK_ADDRESS },
+    '/stats': { status: 200, data: { total_blocks: '100', total_transactions: '200', coin_price: '2500.5' } },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { getAddressInfo } = await import('./getAddressInfo');
+
+beforeEach(() => {
+    api.reset();
+});
+
+const addressInfo = () => getAddressInfo.handler(getAddressInfo.validate({ address: VITALIK }), createToolContext(ethereum));
+
+describe('getAddressInfo', () => {
+    test('values the balance at the address exchange rate', async () => {
+        expect(await addressInfo()).toMatchObject({ balanceUsd: '3000.00', priceUsd: '3000' });
+        expect(api.calls.map((call) => call.path)).toEqual(['/addresses/{address_hash}']);
+    });
+
+    test('falls back to the /stats coin price when the address has none', async () => {
+        api.responses['/addresses/{address_hash}'] = { status: 200, data: { ...VITALIK_ADDRESS, exchange_rate: null } };
+
+        expect(await addressInfo()).toMatchObject({ balanceUsd: '2500.50', priceUsd: '2500.5' });
+        expect(api.calls.map((call) => call.path)).toEqual(['/addresses/{address_hash}', '/stats']);
+    });
+});
@@ -0,0 +1,62 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toAddressInfo, type Schemas } from './mappers';
+import { nativeCoinPrice } from './prices';
+import { defineTool, isToolError } from './types';
+import { requireAddressOrEns, resolveAddress } from './validation';
+
+export const getAddressInfo = defineTool({
+    name: 'getAddressInfo',
+    description: 'Get basic information about an Ethereum address (0x...) including balance, transaction count, and type. ENS names like vitalik.eth are resolved automatically.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            address: {
+                type: Type.STRING,
+                description: 'Ethereum address in 0x format (40 characters after 0x), or an ENS name such as vitalik.eth'
+            }
+        },
+        required: ['address']
+    },
+    validate: (args) => ({
+        address: requireAddressOrEns(args, 'address')
+    }),
+    async handler({ address: target }, context) {
+        debug('getAddressInfo called with address', target);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            const address = await resolveAddress(target, context);
+
+            if (isToolError(address)) {
+                return address;
+            }
+
+            debug('Making API call to /addresses/{address_hash}');
+            const response = await useApi('/addresses/{address_hash}', 'get', {
+                path: { address_hash: address }
+            });
+
+            debug('API response received', { status: response.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching address info: ${response.status}`;
+            }
+
+            const data: Schemas['Address'] = response.data;
+            debug('Raw API data', data);
+
+            const price = await nativeCoinPrice(useApi, data.exchange_rate);
+
+            const result = toAddressInfo(data, context.chain, price);
+
+            debug('Processed result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getAddressInfo', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
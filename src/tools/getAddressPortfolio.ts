@@ -0,0 +1,83 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { formatUsd } from '../units';
+import { toNativeHolding, toTokenHolding, type Schemas } from './mappers';
+import { nativeCoinPrice } from './prices';
+import { defineTool, isToolError } from './types';
+import { requireAddressOrEns, resolveAddress } from './validation';
+
+export const getAddressPortfolio = defineTool({
+    name: 'getAddressPortfolio',
+    description: 'Value the holdings of an address (0x...) in USD: native balance plus every token balance, with a total. Tokens without a known price are listed in unpriced and left out of the total. ENS names like vitalik.eth are resolved automatically.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            address: {
+                type: Type.STRING,
+                description: 'Ethereum address in 0x format (40 characters after 0x), or an ENS name such as vitalik.eth'
+            }
+        },
+        required: ['address']
+    },
+    validate: (args) => ({
+        address: requireAddressOrEns(args, 'address')
+    }),
+    async handler({ address: target }, context) {
+        debug('getAddressPortfolio called with address', target);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            const address = await resolveAddress(target, context);
+
+            if (isToolError(address)) {
+                return address;
+            }
+
+            debug('Making API calls to /addresses/{address_hash} and /addresses/{address_hash}/token-balances');
+            const [info, balances] = await Promise.all([
+                useApi('/addresses/{address_hash}', 'get', {
+                    path: { address_hash: address }
+                }),
+                useApi('/addresses/{address_hash}/token-balances', 'get', {
+                    path: { address_hash: address }
+                })
+            ]);
+
+            debug('API responses received', { info: info.status, balances: balances.status });
+
+            if (info.status !== 200 || balances.status !== 200) {
+                debug(`API error: status ${info.status}/${balances.status}`);
+                return `❌ Error fetching portfolio: ${info.status !== 200 ? info.status : balances.status}`;
+            }
+
+            const data: Schemas['Address'] = info.data;
+            const tokens: Schemas['TokenBalance'][] = balances.data;
+            debug('Raw API data', { tokensCount: tokens.length });
+
+            const price = await nativeCoinPrice(useApi, data.exchange_rate);
+            const rows = [toNativeHolding(data, context.chain, price), ...tokens.map(toTokenHolding)];
+
+            const priced = rows.filter((row) => row.cents !== undefined);
+            const unpriced = rows.filter((row) => row.cents === undefined);
+
+            // Largest holdings first
+            priced.sort((a, b) => (b.cents! > a.cents! ? 1 : b.cents! < a.cents! ? -1 : 0));
+
+            const result = {
+                address,
+                chain: context.chain.name,
+                totalUsd: formatUsd(priced.reduce((total, row) => total + row.cents!, 0n)),
+                holdings: [...priced, ...unpriced].map((row) => row.holding),
+                // Holdings without a USD price; they are not part of totalUsd
+                unpriced: unpriced.map((row) => row.holding.asset)
+            };
+
+            debug('Processed portfolio result', { holdings: result.holdings.length, unpriced: result.unpriced.length });
+            return result;
+        } catch (error) {
+            debug('Error in getAddressPortfolio', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import type { Chain } from '../chains';
+import { createToolContext } from './context';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const NFT = '0x0000000000000000000000000000000000000123';
+const SCAM_TOKEN = '0x0000000000000000000000000000000000000bad';
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const api = createFakeApi({
+    '/addresses/{address_hash}/token-balances': {
+        status: 200,
+        data: [
+            { value: '1500000000', token: { name: 'USD Coin', symbol: 'USDC', address: USDC, type: 'ERC-20', decimals: '6', exchange_rate: '0.9998' } },
+            { value: '2', token: { name: 'Punks', symbol: 'PUNK', address: NFT, type: 'ERC-721', decimals: null, exchange_rate: null } },
+            { value: '5000000000000000000000', token: { name: 'Free Money', symbol: 'SAFE', address: SCAM_TOKEN, type: 'ERC-20', decimals: '18', exchange_rate: null } },
+        ],
+    },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { getAddressTokenBalances } = await import('./getAddressTokenBalances');
+
+beforeEach(() => {
+    api.reset();
+});
+
+describe('getAddressTokenBalances', () => {
+    test('values token balances and leaves unpriced ones null', async () => {
+        const result = await getAddressTokenBalances.handler(getAddressTokenBalances.validate({ address: VITALIK }), createToolContext(ethereum));
+
+        expect(result).toEqual([
+            expect.objectContaining({ valueFormatted: '1500 USDC', priceUsd: '0.9998', valueUsd: '1499.70' }),
+            expect.objectContaining({ valueFormatted: undefined, priceUsd: null, valueUsd: null }),
+            expect.objectContaining({ valueFormatted: '5000 SAFE', priceUsd: null, valueUsd: null }),
+        ]);
+    });
+});
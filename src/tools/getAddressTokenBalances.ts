@@ -0,0 +1,59 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toTokenBalance, type Schemas } from './mappers';
+import { defineTool, isToolError } from './types';
+import { requireAddressOrEns, resolveAddress } from './validation';
+
+export const getAddressTokenBalances = defineTool({
+    name: 'getAddressTokenBalances',
+    description: 'Get all token balances for an Ethereum address (0x...). Shows ERC-20, ERC-721, and other token holdings. ENS names like vitalik.eth are resolved automatically.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            address: {
+                type: Type.STRING,
+                description: 'Ethereum address in 0x format (40 characters after 0x), or an ENS name such as vitalik.eth'
+            }
+        },
+        required: ['address']
+    },
+    validate: (args) => ({
+        address: requireAddressOrEns(args, 'address')
+    }),
+    async handler({ address: target }, context) {
+        debug('getAddressTokenBalances called with address', target);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            const address = await resolveAddress(target, context);
+
+            if (isToolError(address)) {
+                return address;
+            }
+
+            debug('Making API call to /addresses/{address_hash}/token-balances');
+            const response = await useApi('/addresses/{address_hash}/token-balances', 'get', {
+                path: { address_hash: address }
+            });
+
+            debug('API response received', { status: response.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching token balances: ${response.status}`;
+            }
+
+            const data: Schemas['TokenBalance'][] = response.data;
+            debug('Raw API data', { balancesCount: data.length });
+
+            const result = data.map(toTokenBalance);
+
+            debug('Processed token balances result', { count: result.length });
+            return result;
+        } catch (error) {
+            debug('Error in getAddressTokenBalances', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
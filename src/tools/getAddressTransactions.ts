@@ -0,0 +1,65 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { toPage } from '../api/paginate';
+import { debug } from '../debug';
+import { optionalNumber } from './args';
+import { toAddressTransaction, type Schemas } from './mappers';
+import { clampLimit, pagedList } from './pagination';
+import { defineTool, isToolError } from './types';
+import { requireAddressOrEns, resolveAddress } from './validation';
+
+export const getAddressTransactions = defineTool({
+    name: 'getAddressTransactions',
+    description: 'Get recent transactions for an Ethereum address (0x...). ENS names like vitalik.eth are resolved automatically.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            address: {
+                type: Type.STRING,
+                description: 'Ethereum address in 0x format (40 characters after 0x), or an ENS name such as vitalik.eth'
+            },
+            limit: {
+                type: Type.NUMBER,
+                description: 'Number of transactions to retrieve (default: 10, max: 100). If more exist, use getNextPage with the returned nextPageCursor'
+            }
+        },
+        required: ['address']
+    },
+    validate: (args) => ({
+        address: requireAddressOrEns(args, 'address'),
+        limit: optionalNumber(args, 'limit')
+    }),
+    async handler({ address: target, limit }, context) {
+        debug('getAddressTransactions called', { address: target, limit });
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            const address = await resolveAddress(target, context);
+
+            if (isToolError(address)) {
+                return address;
+            }
+
+            const result = await pagedList(
+                context,
+                async (pageParams) => {
+                    debug('Making API call to /addresses/{address_hash}/transactions', pageParams);
+                    const response = await useApi('/addresses/{address_hash}/transactions', 'get', {
+                        path: { address_hash: address },
+                        query: pageParams
+                    });
+
+                    return toPage<Schemas['Transaction']>(response, 'transactions');
+                },
+                (tx) => toAddressTransaction(tx, context.chain),
+                clampLimit(limit, 10)
+            );
+
+            debug('Processed transactions result', { count: result.items.length, nextPageCursor: result.nextPageCursor });
+            return result;
+        } catch (error) {
+            debug('Error in getAddressTransactions', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
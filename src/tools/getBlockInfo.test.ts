@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import type { Chain } from '../chains';
+import { createToolContext } from './context';
+
+const BLOCK_HASH = '0xf569ec751152b2f814001fc730f7797aa155e4bc3ba9cb6ba24bc2c8c9468c1a';
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const api = createFakeApi({
+    '/blocks/{block_number_or_hash}': {
+        status: 200,
+        data: { height: 19000000, hash: BLOCK_HASH, parent_hash: BLOCK_HASH, base_fee_per_gas: '26129428136', burnt_fees: '1500000000000000000', transaction_fees: '2000000000000000000' }
+    },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { getBlockInfo } = await import('./getBlockInfo');
+
+beforeEach(() => {
+    api.reset();
+});
+
+const blockInfo = (blockId: string) => getBlockInfo.handler(getBlockInfo.validate({ blockId }), createToolContext(ethereum));
+
+describe('getBlockInfo', () => {
+    test('looks blocks up by their normalized id', async () => {
+        const block = await blockInfo('0x121eac0');
+
+        expect(api.calls).toEqual([{ path: '/blocks/{block_number_or_hash}', options: { path: { block_number_or_hash: '19000000' } } }]);
+        expect(block).toMatchObject({ number: 19000000, chain: 'ethereum', baseFeeGwei: '26.129428136 Gwei', burntFeesFormatted: '1.5 ETH', transactionFeesFormatted: '2 ETH' });
+    });
+
+    test('looks blocks up by hash', async () => {
+        await blockInfo(BLOCK_HASH.toUpperCase().replace('0X', '0x'));
+
+        expect(api.calls[0]!.options).toEqual({ path: { block_number_or_hash: BLOCK_HASH } });
+    });
+
+    test('reports blocks Blockscout does not know', async () => {
+        api.responses['/blocks/{block_number_or_hash}'] = Object.assign(new Error('Request failed with status 404'), { status: 404 });
+
+        expect(await blockInfo('99999999999')).toBe('❌ Error: Request failed with status 404');
+    });
+});
@@ -0,0 +1,53 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toBlockInfo, type Schemas } from './mappers';
+import { defineTool } from './types';
+import { requireBlockId } from './validation';
+
+export const getBlockInfo = defineTool({
+    name: 'getBlockInfo',
+    description: 'Get details of one block by number or hash: timestamp, miner, transaction count, gas usage, base fee and burnt fees.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            blockId: {
+                type: Type.STRING,
+                description: 'Block number (decimal, e.g. 19000000, or 0x hex) or block hash in 0x format (64 characters after 0x)'
+            }
+        },
+        required: ['blockId']
+    },
+    validate: (args) => ({
+        blockId: requireBlockId(args, 'blockId')
+    }),
+    async handler({ blockId }, context) {
+        debug(`getBlockInfo called with blockId: ${blockId}`);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            debug('Making API call to /blocks/{block_number_or_hash}');
+            const response = await useApi('/blocks/{block_number_or_hash}', 'get', {
+                path: { block_number_or_hash: blockId }
+            });
+
+            debug('API response received', { status: response.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching block: ${response.status}`;
+            }
+
+            const data: Schemas['Block'] = response.data;
+            debug('Raw API data', data);
+
+            const result = toBlockInfo(data, context.chain);
+
+            debug('Processed block info result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getBlockInfo', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,51 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { toPage } from '../api/paginate';
+import { debug } from '../debug';
+import { optionalNumber } from './args';
+import { toBlockSummary, type Schemas } from './mappers';
+import { clampLimit, pagedList } from './pagination';
+import { defineTool } from './types';
+
+export const getLatestBlocks = defineTool({
+    name: 'getLatestBlocks',
+    description: 'Get information about the most recent blocks on the Ethereum blockchain, including block numbers, timestamps, gas usage, and miner information.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            count: {
+                type: Type.NUMBER,
+                description: 'Number of latest blocks to retrieve (default: 5, max: 100). If more exist, use getNextPage with the returned nextPageCursor'
+            }
+        }
+    },
+    validate: (args) => ({
+        count: optionalNumber(args, 'count')
+    }),
+    async handler({ count }, context) {
+        debug(`getLatestBlocks called with count: ${count}`);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            const result = await pagedList(
+                context,
+                async (pageParams) => {
+                    debug('Making API call to /blocks', pageParams);
+                    const response = await useApi('/blocks', 'get', {
+                        query: pageParams
+                    });
+
+                    return toPage<Schemas['Block']>(response, 'blocks');
+                },
+                toBlockSummary,
+                clampLimit(count, 5)
+            );
+
+            debug('Processed blocks result', { count: result.items.length, nextPageCursor: result.nextPageCursor });
+            return result;
+        } catch (error) {
+            debug('Error in getLatestBlocks', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,42 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toNetworkStats, type Schemas } from './mappers';
+import { defineTool } from './types';
+
+export const getNetworkStats = defineTool({
+    name: 'getNetworkStats',
+    description: 'Get overall Ethereum network statistics including total blocks, transactions, addresses, average block time, and network utilization.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {}
+    },
+    validate: () => ({}),
+    async handler(_args, context) {
+        debug('getNetworkStats called');
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            debug('Making API call to /stats');
+            const response = await useApi('/stats', 'get', {});
+
+            debug('API response received', { status: response.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching network stats: ${response.status}`;
+            }
+
+            const data: Schemas['StatsResponse'] = response.data;
+            debug('Raw API data', data);
+
+            const result = toNetworkStats(data);
+
+            debug('Processed network stats result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getNetworkStats', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
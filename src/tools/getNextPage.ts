@@ -0,0 +1,49 @@
+import { Type } from '@google/genai';
+
+import { debug } from '../debug';
+import { optionalNumber, requireString } from './args';
+import { clampLimit } from './pagination';
+import { defineTool } from './types';
+
+export const getNextPage = defineTool({
+    name: 'getNextPage',
+    description: 'Continue a list returned earlier in this conversation (transactions, blocks or search results). Use it when the user asks for "more" or "the next page" and the previous result included a nextPageCursor.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            cursor: {
+                type: Type.STRING,
+                description: 'The nextPageCursor value from the earlier result'
+            },
+            limit: {
+                type: Type.NUMBER,
+                description: 'Number of additional items to retrieve (default: 10, max: 100)'
+            }
+        },
+        required: ['cursor']
+    },
+    validate: (args) => ({
+        cursor: requireString(args, 'cursor'),
+        limit: optionalNumber(args, 'limit')
+    }),
+    async handler({ cursor, limit }, context) {
+        debug(`getNextPage called with cursor: ${cursor}, limit: ${limit}`);
+
+        const resume = context.cursors.get(cursor);
+
+        if (!resume) {
+            debug(`Unknown cursor: ${cursor}`);
+            return `❌ Unknown cursor: ${cursor}. Cursors only refer to results from this conversation.`;
+        }
+
+        try {
+            const result = await resume(clampLimit(limit, 10));
+
+            debug('Processed next page result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getNextPage', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
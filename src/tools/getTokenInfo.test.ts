@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import type { Chain } from '../chains';
+import { createToolContext } from './context';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const api = createFakeApi({
+    '/tokens/{address_hash}': {
+        status: 200,
+        data: { name: 'USD Coin', symbol: 'USDC', address: USDC, decimals: '6', type: 'ERC-20', holders: 100, exchange_rate: '1', total_supply: '1000000' }
+    },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { getTokenInfo } = await import('./getTokenInfo');
+
+beforeEach(() => {
+    api.reset();
+});
+
+const tokenInfo = () => getTokenInfo.handler(getTokenInfo.validate({ tokenAddress: USDC }), createToolContext(ethereum));
+
+describe('getTokenInfo', () => {
+    test('reports the transfer count from the token counters', async () => {
+        api.responses['/tokens/{address_hash}/counters'] = { status: 200, data: { token_holders_count: '2048', transfers_count: '987654' } };
+
+        expect(await tokenInfo()).toMatchObject({ holderCount: 2048, transferCount: 987654, totalSupplyFormatted: '1 USDC' });
+        expect(api.calls.map((call) => call.path)).toEqual(['/tokens/{address_hash}', '/tokens/{address_hash}/counters']);
+    });
+
+    test('still answers when the counters are unavailable', async () => {
+        expect(await tokenInfo()).toMatchObject({ holderCount: 100, transferCount: null });
+    });
+});
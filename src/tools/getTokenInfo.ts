@@ -0,0 +1,62 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toTokenInfo, type Schemas } from './mappers';
+import { defineTool } from './types';
+import { requireAddress } from './validation';
+
+export const getTokenInfo = defineTool({
+    name: 'getTokenInfo',
+    description: 'Get detailed information about a specific token by its contract address, including name, symbol, total supply, and holder count.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            tokenAddress: {
+                type: Type.STRING,
+                description: 'Token contract address in 0x format (40 characters after 0x)'
+            }
+        },
+        required: ['tokenAddress']
+    },
+    validate: (args) => ({
+        tokenAddress: requireAddress(args, 'tokenAddress')
+    }),
+    async handler({ tokenAddress }, context) {
+        debug(`getTokenInfo called with tokenAddress: ${tokenAddress}`);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            debug('Making API calls to /tokens/{address_hash} and /tokens/{address_hash}/counters');
+            const [response, counters] = await Promise.all([
+                useApi('/tokens/{address_hash}', 'get', {
+                    path: { address_hash: tokenAddress }
+                }),
+                // Holder and transfer counts; the token itself is still worth returning without them
+                useApi('/tokens/{address_hash}/counters', 'get', {
+                    path: { address_hash: tokenAddress }
+                }).catch((error: unknown) => {
+                    debug('Token counters unavailable', error);
+                    return undefined;
+                })
+            ]);
+
+            debug('API response received', { status: response.status, countersStatus: counters?.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching token info: ${response.status}`;
+            }
+
+            const data: Schemas['Token'] = response.data;
+            debug('Raw API data', data);
+
+            const result = toTokenInfo(data, counters?.status === 200 ? counters.data : undefined);
+
+            debug('Processed token info result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getTokenInfo', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,53 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { toTransactionInfo, type Schemas } from './mappers';
+import { defineTool } from './types';
+import { requireTransactionHash } from './validation';
+
+export const getTransactionInfo = defineTool({
+    name: 'getTransactionInfo',
+    description: 'Get detailed information about a specific transaction including gas usage, fees, method called, and status.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            txHash: {
+                type: Type.STRING,
+                description: 'Transaction hash in 0x format (64 characters after 0x)'
+            }
+        },
+        required: ['txHash']
+    },
+    validate: (args) => ({
+        txHash: requireTransactionHash(args, 'txHash')
+    }),
+    async handler({ txHash }, context) {
+        debug(`getTransactionInfo called with txHash: ${txHash}`);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            debug('Making API call to /transactions/{transaction_hash}');
+            const response = await useApi('/transactions/{transaction_hash}', 'get', {
+                path: { transaction_hash: txHash }
+            });
+
+            debug('API response received', { status: response.status });
+
+            if (response.status !== 200) {
+                debug(`API error: status ${response.status}`);
+                return `❌ Error fetching transaction: ${response.status}`;
+            }
+
+            const data: Schemas['Transaction'] = response.data;
+            debug('Raw API data', data);
+
+            const result = toTransactionInfo(data, context.chain);
+
+            debug('Processed transaction info result', result);
+            return result;
+        } catch (error) {
+            debug('Error in getTransactionInfo', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,55 @@
+import { describe, expect, mock, test } from 'bun:test';
+
+import { parseChainRegistry, type Chain } from '../chains';
+
+const chain = (name: string, chainId: number): Chain => ({
+    name,
+    chainId,
+    blockscoutUrl: `https://${name}.blockscout.com/api/v2/`,
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+});
+
+const registry = parseChainRegistry({ chains: [chain('ethereum', 1), chain('base', 8453)] });
+
+// Chains the tools sent requests to
+const requested: string[] = [];
+
+mock.module('../api', () => ({
+    getApi: (target: Chain) => async () => {
+        requested.push(target.name);
+
+        return { status: 200, data: { total_blocks: String(target.chainId) } };
+    },
+}));
+
+const { createToolContext, executeFunction } = await import('.');
+
+describe('executeFunction chain routing', () => {
+    const stats = async (args: Record<string, unknown>) => {
+        requested.length = 0;
+
+        return executeFunction({ name: 'getNetworkStats', args }, createToolContext(registry.defaultChain, registry));
+    };
+
+    test('uses the conversation chain when the call names none', async () => {
+        expect(await stats({})).toMatchObject({ totalBlocks: '1' });
+        expect(requested).toEqual(['ethereum']);
+    });
+
+    test('sends the call to the chain it names, by name or chain id', async () => {
+        expect(await stats({ chain: 'Base' })).toMatchObject({ totalBlocks: '8453' });
+        expect(requested).toEqual(['base']);
+
+        expect(await stats({ chain: 8453 })).toMatchObject({ totalBlocks: '8453' });
+        expect(requested).toEqual(['base']);
+    });
+
+    test('answers unknown chains without a request', async () => {
+        expect(await stats({ chain: 'solana' })).toBe('❌ Unknown chain: solana. Configured chains: ethereum, base');
+        expect(requested).toEqual([]);
+    });
+
+    test('reports unknown functions', async () => {
+        expect(await executeFunction({ name: 'getEverything', args: {} }, createToolContext(registry.defaultChain, registry))).toBe('❌ Unknown function: getEverything');
+    });
+});
@@ -0,0 +1,95 @@
+import { Type, type FunctionCall, type FunctionDeclaration } from '@google/genai';
+
+import { chainRegistry, findChain } from '../chains';
+import { debug } from '../debug';
+import type { ToolContext } from './context';
+import { getAddressInfo } from './getAddressInfo';
+import { getAddressPortfolio } from './getAddressPortfolio';
+import { getAddressTokenBalances } from './getAddressTokenBalances';
+import { getAddressTransactions } from './getAddressTransactions';
+import { getBlockInfo } from './getBlockInfo';
+import { getLatestBlocks } from './getLatestBlocks';
+import { getNextPage } from './getNextPage';
+import { getNetworkStats } from './getNetworkStats';
+import { getTokenInfo } from './getTokenInfo';
+import { getTransactionInfo } from './getTransactionInfo';
+import { lookupAddressOnAllChains } from './lookupAddressOnAllChains';
+import { searchBlockchain } from './searchBlockchain';
+import { ToolArgumentError, toolError, type Tool } from './types';
+
+export * from './types';
+export { createToolContext } from './context';
+
+// Every tool the model can call. Adding a tool only requires adding it here.
+export const tools: Tool[] = [
+    getAddressInfo,
+    getAddressTransactions,
+    getAddressTokenBalances,
+    getAddressPortfolio,
+    getTokenInfo,
+    getTransactionInfo,
+    getLatestBlocks,
+    getBlockInfo,
+    searchBlockchain,
+    getNetworkStats,
+    getNextPage,
+    lookupAddressOnAllChains,
+];
+
+const chainNames = chainRegistry.chains.map((chain) => chain.name);
+
+// Every tool accepts an optional chain, falling back to the conversation default
+const chainParameter = {
+    type: Type.STRING,
+    description: `Chain to query, one of: ${chainNames.join(', ')}. Omit to use the user's default chain.`,
+};
+
+// Function declarations for Gemini
+export const functionDeclarations: FunctionDeclaration[] = tools.map(({ name, description, parameters, multiChain }) => ({
+    name,
+    description,
+    parameters: multiChain ? parameters : {
+        ...parameters,
+        properties: { ...parameters.properties, chain: chainParameter },
+    },
+}));
+
+export const findTool = (name: string | undefined) => tools.find((tool) => tool.name === name);
+
+// Function to execute tool calls
+export async function executeFunction(functionCall: FunctionCall, context: ToolContext) {
+    debug('executeFunction called', functionCall);
+    const { name, args } = functionCall;
+
+    const tool = findTool(name);
+
+    if (!tool) {
+        debug(`Unknown function called: ${name}`);
+        return `❌ Unknown function: ${name}`;
+    }
+
+    debug(`Executing function: ${name}`, args);
+
+    const { chain: chainName, ...toolArgs } = args || {};
+    const chain = chainName === undefined ? context.chain : findChain(context.registry, String(chainName));
+
+    if (!chain) {
+        debug(`Unknown chain requested: ${chainName}`);
+        return `❌ Unknown chain: ${chainName}. Configured chains: ${context.registry.chains.map((chain) => chain.name).join(', ')}`;
+    }
+
+    let result;
+    try {
+        result = await tool.handler(tool.validate(toolArgs), { ...context, chain });
+    } catch (error) {
+        if (!(error instanceof ToolArgumentError)) {
+            throw error;
+        }
+
+        debug(`Invalid arguments for ${name}`, error.message);
+        result = toolError(`❌ Invalid arguments for ${name}`, error.message, error.problem);
+    }
+
+    debug(`Function ${name} completed`, { resultType: typeof result });
+    return result;
+}
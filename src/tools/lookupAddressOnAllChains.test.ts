@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import { parseChainRegistry } from '../chains';
+import { createToolContext } from './context';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+const registry = parseChainRegistry({
+    chains: [['ethereum', 1], ['base', 8453], ['optimism', 10], ['gnosis', 100], ['sepolia', 11155111]].map(([name, chainId]) => ({
+        name,
+        chainId,
+        blockscoutUrl: `https://${name}.blockscout.com/api/v2/`,
+        nativeCurrency: { symbol: 'ETH', decimals: 18 },
+    })),
+});
+
+const api = createFakeApi({
+    '/addresses/{address_hash}': { status: 200, data: { hash: VITALIK, coin_balance: '1000000000000000000', is_contract: false, is_verified: false } },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { lookupAddressOnAllChains } = await import('./lookupAddressOnAllChains');
+
+beforeEach(() => {
+    api.reset();
+});
+
+const lookup = (address: string) =>
+    lookupAddressOnAllChains.handler(lookupAddressOnAllChains.validate({ address }), createToolContext(registry.defaultChain, registry));
+
+describe('lookupAddressOnAllChains', () => {
+    test('reports 404s as not found and other failures as errors, whether thrown or returned', async () => {
+        api.responses['base:/addresses/{address_hash}'] = { status: 404, data: { message: 'Not found' } };
+        api.responses['optimism:/addresses/{address_hash}'] = Object.assign(new Error('Request failed with status 404'), { status: 404 });
+        api.responses['gnosis:/addresses/{address_hash}'] = Object.assign(new Error('Request failed with status 502'), { status: 502 });
+        api.responses['sepolia:/addresses/{address_hash}'] = { status: 500, data: {} };
+
+        const result = await lookup(VITALIK) as { activeOn: string[]; chains: unknown[] };
+
+        expect(result.activeOn).toEqual(['ethereum']);
+        expect(result.chains).toEqual([
+            expect.objectContaining({ chain: 'ethereum', found: true, balanceFormatted: '1 ETH', transactionCount: null }),
+            { chain: 'base', chainId: 8453, found: false },
+            { chain: 'optimism', chainId: 10, found: false },
+            { chain: 'gnosis', chainId: 100, found: false, error: 'Request failed with status 502' },
+            { chain: 'sepolia', chainId: 11155111, found: false, error: 'status 500' },
+        ]);
+    });
+
+    test('queries every chain of the registry it is given', async () => {
+        api.responses['/addresses/{address_hash}/counters'] = { status: 200, data: { transactions_count: '42' } };
+
+        const result = await lookup(VITALIK.toLowerCase()) as { address: string; activeOn: string[] };
+
+        expect(result).toMatchObject({ address: VITALIK, activeOn: ['ethereum', 'base', 'optimism', 'gnosis', 'sepolia'] });
+        expect(api.calls).toHaveLength(registry.chains.length * 2);
+    });
+});
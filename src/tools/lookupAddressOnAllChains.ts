@@ -0,0 +1,113 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import type { Chain } from '../chains';
+import { debug } from '../debug';
+import type { RequestScope } from './context';
+import { toAddressOnChain, type AddressOnChain } from './mappers';
+import { defineTool, isToolError, type ToolError } from './types';
+import { requireAddressOrEns, resolveAddress } from './validation';
+
+// A slow or unreachable instance must not hold up the whole table
+const LOOKUP_TIMEOUT_MS = 10_000;
+
+async function lookupOnChain(chain: Chain, address: string, scope: RequestScope): Promise<AddressOnChain> {
+    const useApi = getApi(chain, scope);
+    const fetchOptions = { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) };
+
+    debug(`Looking up ${address} on ${chain.name}`);
+    const [response, counters] = await Promise.all([
+        useApi('/addresses/{address_hash}', 'get', {
+            path: { address_hash: address },
+            fetchOptions
+        }),
+        // Counters are a nice-to-have; some instances compute them lazily
+        useApi('/addresses/{address_hash}/counters', 'get', {
+            path: { address_hash: address },
+            fetchOptions
+        }).catch((error: unknown) => {
+            debug(`Counters unavailable on ${chain.name}`, error);
+            return undefined;
+        })
+    ]);
+
+    if (response.status !== 200) {
+        // Shaped like the errors the client throws, so a 404 means "not found" either way
+        throw Object.assign(new Error(`status ${response.status}`), { status: response.status });
+    }
+
+    return toAddressOnChain(response.data, counters?.status === 200 ? counters.data : undefined, chain);
+}
+
+export const lookupAddressOnAllChains = defineTool({
+    name: 'lookupAddressOnAllChains',
+    description: 'Look up an address (0x...) on every configured chain at once and return a per-chain table of balance, transaction count, contract status and verification. Use this when the user does not say which chain an address belongs to or asks where it is active.',
+    multiChain: true,
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            address: {
+                type: Type.STRING,
+                description: 'Address in 0x format (40 characters after 0x), or an ENS name (resolved on the default chain)'
+            }
+        },
+        required: ['address']
+    },
+    validate: (args) => ({
+        address: requireAddressOrEns(args, 'address')
+    }),
+    async handler({ address: target }, context) {
+        debug('lookupAddressOnAllChains called with address', target);
+
+        let address: string | ToolError;
+
+        try {
+            address = await resolveAddress(target, context);
+        } catch (error) {
+            debug('Error resolving address in lookupAddressOnAllChains', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+
+        if (isToolError(address)) {
+            return address;
+        }
+
+        const { chains: configured } = context.registry;
+        const settled = await Promise.allSettled(
+            configured.map((chain) => lookupOnChain(chain, address, context.scope))
+        );
+
+        const chains = settled.map((outcome, index) => {
+            const chain = configured[index]!;
+
+            if (outcome.status === 'fulfilled') {
+                return outcome.value;
+            }
+
+            const error = outcome.reason;
+
+            // Blockscout answers 404 for addresses it has never seen
+            if (error?.status === 404) {
+                return { chain: chain.name, chainId: chain.chainId, found: false };
+            }
+
+            debug(`Lookup failed on ${chain.name}`, error);
+            return {
+                chain: chain.name,
+                chainId: chain.chainId,
+                found: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        });
+
+        const result = {
+            address,
+            // Chains whose Blockscout instance knows the address
+            activeOn: chains.filter((row) => row.found).map((row) => row.chain),
+            chains
+        };
+
+        debug('Processed cross-chain lookup result', result);
+        return result;
+    }
+});
@@ -0,0 +1,181 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { Chain } from '../chains';
+import { toAddressTransaction, toBlockSummary, toNativeHolding, toSearchResult, toTokenBalance, toTokenHolding, toTokenInfo, toTransactionInfo, type Schemas } from './mappers';
+
+// Responses trimmed to the fields the mappers read
+const fixture = <T>(value: Partial<T>) => value as T;
+
+const ethereum = { name: 'ethereum', chainId: 1, nativeCurrency: { symbol: 'ETH', decimals: 18 } } as Chain;
+
+const USDC = fixture<Schemas['Token']>({
+    name: 'USD Coin',
+    symbol: 'USDC',
+    address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    decimals: '6',
+    type: 'ERC-20',
+    holders: 100,
+    exchange_rate: '0.9998',
+    total_supply: '25000000000000000'
+});
+
+const transaction = fixture<Schemas['Transaction']>({
+    hash: '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060',
+    from: fixture<Schemas['AddressParam']>({ hash: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045' }),
+    to: null as unknown as Schemas['AddressParam'],
+    value: '250000000000000000',
+    gas_used: '21000',
+    gas_limit: 21000,
+    gas_price: '26129428136',
+    status: 'ok',
+    block_number: 17615720,
+    timestamp: '2023-07-03T20:09:59.000000Z',
+    method: 'transfer',
+    fee: { type: 'actual', value: '548717990856000' }
+});
+
+describe('toTokenInfo', () => {
+    test('takes holder and transfer counts from the counters endpoint', () => {
+        expect(toTokenInfo(USDC, { token_holders_count: '2048', transfers_count: '123456789' })).toEqual({
+            name: 'USD Coin',
+            symbol: 'USDC',
+            decimals: '6',
+            totalSupply: '25000000000000000',
+            totalSupplyFormatted: '25000000000 USDC',
+            holderCount: 2048,
+            transferCount: 123456789,
+            type: 'ERC-20'
+        });
+    });
+
+    test('falls back to the token holder count and leaves transfers unknown without counters', () => {
+        expect(toTokenInfo(USDC)).toMatchObject({ holderCount: 100, transferCount: null });
+    });
+});
+
+test('toTokenBalance adds formatted and USD values', () => {
+    expect(toTokenBalance(fixture<Schemas['TokenBalance']>({ value: '1500000000', token: USDC }))).toEqual({
+        token: { name: 'USD Coin', symbol: 'USDC', address: USDC.address, decimals: '6' },
+        value: '1500000000',
+        valueFormatted: '1500 USDC',
+        priceUsd: '0.9998',
+        valueUsd: '1499.70'
+    });
+});
+
+describe('portfolio holdings', () => {
+    test('toNativeHolding values the coin balance at the given price', () => {
+        expect(toNativeHolding(fixture<Schemas['Address']>({ coin_balance: '1000000000000000000' }), ethereum, '3000')).toEqual({
+            holding: { asset: 'ETH', type: 'native', balance: '1 ETH', priceUsd: '3000', valueUsd: '3000.00' },
+            cents: 300000n
+        });
+    });
+
+    test('toTokenHolding keeps NFT counts and leaves unpriced tokens without cents', () => {
+        const punks = fixture<Schemas['Token']>({ name: 'Punks', symbol: 'PUNK', address: '0x0000000000000000000000000000000000000123', type: 'ERC-721' });
+
+        expect(toTokenHolding(fixture<Schemas['TokenBalance']>({ value: '2', token: punks }))).toEqual({
+            holding: { asset: 'PUNK', type: 'ERC-721', token: punks.address, balance: '2', priceUsd: null, valueUsd: null },
+            cents: undefined
+        });
+        expect(toTokenHolding(fixture<Schemas['TokenBalance']>({ value: '1500000000', token: USDC })).cents).toBe(149970n);
+    });
+});
+
+describe('transactions', () => {
+    test('toAddressTransaction keeps contract creations without a recipient', () => {
+        expect(toAddressTransaction(transaction, ethereum)).toEqual({
+            hash: transaction.hash,
+            from: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
+            to: undefined,
+            value: '250000000000000000',
+            valueFormatted: '0.25 ETH',
+            gasUsed: '21000',
+            status: 'ok',
+            timestamp: '2023-07-03T20:09:59.000000Z',
+            method: 'transfer'
+        });
+    });
+
+    test('toTransactionInfo formats gas price and fee', () => {
+        expect(toTransactionInfo(transaction, ethereum)).toMatchObject({
+            chain: 'ethereum',
+            nativeCurrency: 'ETH',
+            gasLimit: 21000,
+            gasPriceGwei: '26.129428136 Gwei',
+            blockNumber: 17615720,
+            fee: { type: 'actual', value: '548717990856000' },
+            feeFormatted: '0.000548717990856 ETH'
+        });
+    });
+});
+
+test('toBlockSummary renames block fields', () => {
+    const block = fixture<Schemas['Block']>({
+        height: 17615720,
+        hash: '0xf569ec751152b2f814001fc730f7797aa155e4bc3ba9cb6ba24bc2c8c9468c1a',
+        timestamp: '2023-07-03T20:09:59.000000Z',
+        transaction_count: 120,
+        miner: fixture<Schemas['AddressParam']>({ hash: '0x388C818CA8B9251b393131C08a736A67ccB19297' }),
+        gas_used: '9814987',
+        gas_limit: '30000000'
+    });
+
+    expect(toBlockSummary(block)).toEqual({
+        number: 17615720,
+        hash: block.hash,
+        timestamp: block.timestamp,
+        transactionCount: 120,
+        miner: '0x388C818CA8B9251b393131C08a736A67ccB19297',
+        gasUsed: '9814987',
+        gasLimit: '30000000'
+    });
+});
+
+describe('toSearchResult', () => {
+    test('maps tokens with their market data', () => {
+        expect(toSearchResult({
+            type: 'token',
+            name: 'Tether USD',
+            symbol: 'USDT',
+            address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+            token_type: 'ERC-20',
+            token_url: '/token/0xdAC17F958D2ee523a2206206994597C13D831ec7',
+            exchange_rate: '0.999813',
+            circulating_market_cap: '83000000000'
+        }, 'USDT')).toMatchObject({
+            type: 'token',
+            name: 'Tether USD',
+            symbol: 'USDT',
+            tokenType: 'ERC-20',
+            url: '/token/0xdAC17F958D2ee523a2206206994597C13D831ec7',
+            price: '0.999813',
+            marketCap: '83000000000'
+        });
+    });
+
+    test('explains ENS resolutions', () => {
+        expect(toSearchResult({
+            type: 'ens_domain',
+            name: 'vitalik.eth',
+            address_hash: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
+            ens_info: { name: 'vitalik.eth' }
+        }, 'vitalik.eth')).toMatchObject({
+            address: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
+            ensName: 'vitalik.eth',
+            ensResolution: 'vitalik.eth resolves to 0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+        });
+    });
+
+    test('maps transactions and blocks', () => {
+        expect(toSearchResult({ type: 'transaction', transaction_hash: transaction.hash, url: '/tx/1' }, '0x5c50')).toMatchObject({
+            hash: transaction.hash,
+            name: 'Unknown'
+        });
+        expect(toSearchResult({ type: 'block', block_number: 1, block_hash: '0x01', block_type: 'block' }, '1')).toMatchObject({
+            blockNumber: 1,
+            blockHash: '0x01',
+            blockType: 'block'
+        });
+    });
+});
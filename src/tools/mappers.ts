@@ -0,0 +1,406 @@
+// Maps generated Blockscout response types onto the result shapes tools hand to the model.
+// Regenerating schema.gen.ts with a renamed or retyped field breaks the build here, not at runtime.
+
+import type { components, operations } from '../api/schema.gen';
+import type { Chain } from '../chains';
+import { debug } from '../debug';
+import { formatAmount, formatGwei, formatNative, formatUsd, usdCents, usdValue } from '../units';
+
+export type Schemas = components['schemas'];
+
+// Fields the live /search endpoint sends that schema.gen.ts does not describe
+type SearchResultExtras = {
+    address_hash?: string;
+    ens_info?: { name?: string; names_count?: number } | null;
+    priority?: number;
+    certified?: boolean;
+    is_verified_via_admin_panel?: boolean;
+    circulating_market_cap?: string | null;
+    tx_hash?: string;
+    block_type?: string;
+};
+
+type SearchResponseItem = operations['search']['responses'][200]['content']['application/json']['items'][number];
+
+// Search items of every kind share one list; which fields are present depends on `type`
+export type SearchItem = Pick<SearchResponseItem, 'type'> & Partial<
+    Schemas['SearchResultToken'] &
+    Schemas['SearchResultAddressOrContract'] &
+    Schemas['SearchResultBlock'] &
+    Schemas['SearchResultTransaction']
+> & SearchResultExtras;
+
+const accountType = (isContract?: boolean) => isContract ? 'Contract' : 'EOA (Externally Owned Account)';
+
+export type AddressInfo = {
+    address: string;
+    chain: string;
+    balance: string;
+    balanceCurrency: string;
+    balanceFormatted?: string;
+    // Null when Blockscout has no price for the native coin
+    balanceUsd: string | null;
+    priceUsd: string | null;
+    type: string;
+    verified: boolean;
+};
+
+export const toAddressInfo = (address: Schemas['Address'], chain: Chain, price: string | null): AddressInfo => ({
+    address: address.hash,
+    chain: chain.name,
+    balance: address.coin_balance || '0',
+    balanceCurrency: chain.nativeCurrency.symbol,
+    balanceFormatted: formatNative(address.coin_balance || '0', chain),
+    balanceUsd: usdValue(address.coin_balance || '0', chain.nativeCurrency.decimals, price) ?? null,
+    priceUsd: price,
+    type: accountType(address.is_contract),
+    verified: address.is_verified || false
+});
+
+export type AddressOnChain = {
+    chain: string;
+    chainId: number;
+    found: true;
+    balance: string;
+    balanceCurrency: string;
+    balanceFormatted?: string;
+    transactionCount: string | null;
+    type: string;
+    verified: boolean;
+};
+
+export const toAddressOnChain = (address: Schemas['Address'], counters: Schemas['AddressCounters'] | undefined, chain: Chain): AddressOnChain => ({
+    chain: chain.name,
+    chainId: chain.chainId,
+    found: true,
+    balance: address.coin_balance || '0',
+    balanceCurrency: chain.nativeCurrency.symbol,
+    balanceFormatted: formatNative(address.coin_balance || '0', chain),
+    transactionCount: counters?.transactions_count ?? null,
+    type: accountType(address.is_contract),
+    verified: address.is_verified || false
+});
+
+export type AddressTransaction = {
+    hash: string;
+    from?: string;
+    // Absent for contract creations
+    to?: string;
+    value: string;
+    valueFormatted?: string;
+    gasUsed: string;
+    status: string;
+    timestamp: string;
+    method: string;
+};
+
+export const toAddressTransaction = (tx: Schemas['Transaction'], chain: Chain): AddressTransaction => ({
+    hash: tx.hash,
+    from: tx.from?.hash,
+    to: tx.to?.hash,
+    value: tx.value,
+    valueFormatted: formatNative(tx.value, chain),
+    gasUsed: tx.gas_used,
+    status: tx.status,
+    timestamp: tx.timestamp,
+    method: tx.method
+});
+
+export type TransactionInfo = {
+    hash: string;
+    chain: string;
+    nativeCurrency: string;
+    from?: string;
+    to?: string;
+    value: string;
+    valueFormatted?: string;
+    gasUsed: string;
+    gasLimit: number;
+    gasPrice: string;
+    gasPriceGwei?: string;
+    status: string;
+    blockNumber: number;
+    timestamp: string;
+    method: string;
+    fee: Schemas['Fee'];
+    feeFormatted?: string;
+};
+
+export const toTransactionInfo = (tx: Schemas['Transaction'], chain: Chain): TransactionInfo => ({
+    hash: tx.hash,
+    chain: chain.name,
+    nativeCurrency: chain.nativeCurrency.symbol,
+    from: tx.from?.hash,
+    to: tx.to?.hash,
+    value: tx.value,
+    valueFormatted: formatNative(tx.value, chain),
+    gasUsed: tx.gas_used,
+    gasLimit: tx.gas_limit,
+    gasPrice: tx.gas_price,
+    gasPriceGwei: formatGwei(tx.gas_price),
+    status: tx.status,
+    blockNumber: tx.block_number,
+    timestamp: tx.timestamp,
+    method: tx.method,
+    fee: tx.fee,
+    feeFormatted: formatNative(tx.fee?.value, chain)
+});
+
+export type BlockSummary = {
+    number: number;
+    hash: string;
+    timestamp: string;
+    transactionCount: number;
+    miner?: string;
+    gasUsed: string;
+    gasLimit: string;
+};
+
+export const toBlockSummary = (block: Schemas['Block']): BlockSummary => ({
+    number: block.height,
+    hash: block.hash,
+    timestamp: block.timestamp,
+    transactionCount: block.transaction_count,
+    miner: block.miner?.hash,
+    gasUsed: block.gas_used,
+    gasLimit: block.gas_limit
+});
+
+export type BlockInfo = BlockSummary & {
+    chain: string;
+    parentHash: string;
+    size: number;
+    baseFeePerGas: string;
+    baseFeeGwei?: string;
+    burntFees: string;
+    burntFeesFormatted?: string;
+    transactionFees: string;
+    transactionFeesFormatted?: string;
+};
+
+export const toBlockInfo = (block: Schemas['Block'], chain: Chain): BlockInfo => ({
+    ...toBlockSummary(block),
+    chain: chain.name,
+    parentHash: block.parent_hash,
+    size: block.size,
+    baseFeePerGas: block.base_fee_per_gas,
+    baseFeeGwei: formatGwei(block.base_fee_per_gas),
+    burntFees: block.burnt_fees,
+    burntFeesFormatted: formatNative(block.burnt_fees, chain),
+    transactionFees: block.transaction_fees,
+    transactionFeesFormatted: formatNative(block.transaction_fees, chain)
+});
+
+export type TokenBalanceResult = {
+    token: {
+        name: string;
+        symbol: string;
+        address: string;
+        decimals: string;
+    };
+    value: string;
+    // Absent for NFTs and tokens that do not declare decimals
+    valueFormatted?: string;
+    // Null for tokens Blockscout has no price for; never estimated
+    priceUsd: string | null;
+    valueUsd: string | null;
+};
+
+export const toTokenBalance = ({ token, value }: Schemas['TokenBalance']): TokenBalanceResult => ({
+    token: {
+        name: token.name,
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals
+    },
+    value,
+    valueFormatted: formatAmount(value, token.decimals, token.symbol),
+    priceUsd: token.exchange_rate ?? null,
+    valueUsd: usdValue(value, token.decimals, token.exchange_rate) ?? null
+});
+
+export type Holding = {
+    asset: string;
+    type: string;
+    token?: string;
+    balance: string;
+    priceUsd: string | null;
+    valueUsd: string | null;
+};
+
+// A portfolio line plus its exact USD value for sorting and totals; no cents means no price
+export type HoldingRow = {
+    holding: Holding;
+    cents?: bigint;
+};
+
+export const toNativeHolding = (address: Schemas['Address'], chain: Chain, price: string | null): HoldingRow => {
+    const balance = address.coin_balance || '0';
+    const cents = usdCents(balance, chain.nativeCurrency.decimals, price);
+
+    return {
+        holding: {
+            asset: chain.nativeCurrency.symbol,
+            type: 'native',
+            balance: formatNative(balance, chain) ?? balance,
+            priceUsd: price,
+            valueUsd: cents === undefined ? null : formatUsd(cents)
+        },
+        cents
+    };
+};
+
+export const toTokenHolding = ({ token, value }: Schemas['TokenBalance']): HoldingRow => {
+    const cents = usdCents(value, token.decimals, token.exchange_rate);
+
+    return {
+        holding: {
+            asset: token.symbol || token.name || token.address,
+            type: token.type,
+            token: token.address,
+            // NFTs have no decimals; their raw value is a count
+            balance: formatAmount(value, token.decimals, token.symbol) ?? value,
+            priceUsd: token.exchange_rate ?? null,
+            valueUsd: cents === undefined ? null : formatUsd(cents)
+        },
+        cents
+    };
+};
+
+export type TokenInfo = {
+    name: string;
+    symbol: string;
+    decimals: string;
+    totalSupply: string;
+    totalSupplyFormatted?: string;
+    holderCount: number;
+    // Null when the instance could not count transfers
+    transferCount: number | null;
+    type: string;
+};
+
+export const toTokenInfo = (token: Schemas['Token'], counters?: Schemas['TokenCounters']): TokenInfo => ({
+    name: token.name,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    totalSupply: token.total_supply,
+    totalSupplyFormatted: formatAmount(token.total_supply, token.decimals, token.symbol),
+    holderCount: counters ? Number(counters.token_holders_count) : token.holders,
+    transferCount: counters ? Number(counters.transfers_count) : null,
+    type: token.type
+});
+
+export type NetworkStats = {
+    totalBlocks: string;
+    totalTransactions: string;
+    totalAddresses: string;
+    averageBlockTime: number;
+    networkUtilization: number;
+};
+
+export const toNetworkStats = (stats: Schemas['StatsResponse']): NetworkStats => ({
+    totalBlocks: stats.total_blocks,
+    totalTransactions: stats.total_transactions,
+    totalAddresses: stats.total_addresses,
+    averageBlockTime: stats.average_block_time,
+    networkUtilization: stats.network_utilization_percentage
+});
+
+export type SearchResult = {
+    type: string;
+    name: string;
+    priority: number;
+    address?: string;
+    isContract?: boolean;
+    url?: string;
+    certified?: boolean;
+    ensName?: string;
+    ensNamesCount?: number;
+    ensResolution?: string;
+    symbol?: string;
+    tokenType?: string;
+    totalSupply?: string;
+    isVerified?: boolean;
+    isVerifiedAdmin?: boolean;
+    marketCap?: string;
+    price?: string;
+    iconUrl?: string;
+    hash?: string;
+    timestamp?: string;
+    blockNumber?: number;
+    blockHash?: string;
+    blockType?: string;
+};
+
+// Process and enhance a single search result
+export const toSearchResult = (item: SearchItem, query: string): SearchResult => {
+    debug('Processing search result item', item);
+
+    const result: SearchResult = {
+        type: item.type,
+        name: item.name || 'Unknown',
+        priority: item.priority || 0
+    };
+
+    // Handle different types of search results
+    if (item.type === 'address') {
+        result.address = item.address_hash || item.address;
+        result.isContract = item.is_smart_contract_verified || false;
+        result.url = item.url || item.address_url;
+        result.certified = item.certified || false;
+
+        // Check for ENS info
+        if (item.ens_info) {
+            result.ensName = item.ens_info.name;
+            result.ensNamesCount = item.ens_info.names_count;
+        }
+
+    } else if (item.type === 'ens_domain') {
+        result.address = item.address_hash || item.address;
+        result.ensName = item.ens_info?.name;
+        result.isContract = item.is_smart_contract_verified || false;
+        result.url = item.url || item.address_url;
+
+        // For ENS lookups, this is the resolved address
+        if (query.endsWith('.eth')) {
+            result.ensResolution = `${query} resolves to ${item.address_hash || item.address}`;
+            debug(`ENS resolution found: ${query} -> ${item.address_hash || item.address}`);
+        }
+
+    } else if (item.type === 'token') {
+        result.address = item.address_hash || item.address;
+        result.symbol = item.symbol;
+        result.tokenType = item.token_type;
+        result.url = item.token_url;
+        result.totalSupply = item.total_supply;
+        result.isVerified = item.is_smart_contract_verified || false;
+        result.isVerifiedAdmin = item.is_verified_via_admin_panel || false;
+        result.certified = item.certified || false;
+
+        // Market data if available
+        if (item.circulating_market_cap) {
+            result.marketCap = item.circulating_market_cap;
+        }
+        if (item.exchange_rate) {
+            result.price = item.exchange_rate;
+        }
+        if (item.icon_url) {
+            result.iconUrl = item.icon_url;
+        }
+
+    } else if (item.type === 'transaction') {
+        result.hash = item.transaction_hash || item.tx_hash;
+        result.url = item.url;
+        result.timestamp = item.timestamp;
+
+    } else if (item.type === 'block') {
+        result.blockNumber = item.block_number;
+        result.blockHash = item.block_hash;
+        result.url = item.url;
+        result.timestamp = item.timestamp;
+        result.blockType = item.block_type;
+    }
+
+    debug('Processed search result', result);
+    return result;
+};
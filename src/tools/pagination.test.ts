@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+
+import { chainRegistry } from '../chains';
+import { createToolContext } from './context';
+import { getNextPage } from './getNextPage';
+import { clampLimit, pagedList } from './pagination';
+
+// Ten numbered items, served three per page
+const fetchPage = async (pageParams?: Record<string, unknown>) => {
+    const start = Number(pageParams?.start ?? 0);
+    const items = [0, 1, 2].map((offset) => start + offset).filter((item) => item < 10);
+
+    return { items, next_page_params: start + 3 < 10 ? { start: start + 3 } : null };
+};
+
+const double = (item: number) => item * 2;
+
+describe('pagedList', () => {
+    test('maps items and registers a cursor for the rest of the list', async () => {
+        const context = createToolContext(chainRegistry.defaultChain);
+
+        const page = await pagedList(context, fetchPage, double, 4);
+
+        expect(page.items).toEqual([0, 2, 4, 6]);
+        expect(page.nextPageCursor).toBe('cursor-1');
+    });
+
+    test('omits the cursor once the list is exhausted', async () => {
+        const context = createToolContext(chainRegistry.defaultChain);
+
+        const page = await pagedList(context, fetchPage, double, 20);
+
+        expect(page.items).toHaveLength(10);
+        expect(page.nextPageCursor).toBeUndefined();
+    });
+});
+
+describe('getNextPage', () => {
+    const next = (context: ReturnType<typeof createToolContext>, cursor: string, limit?: number) =>
+        getNextPage.handler(getNextPage.validate({ cursor, limit }), context);
+
+    test('continues a listing where the previous page left off', async () => {
+        const context = createToolContext(chainRegistry.defaultChain);
+        const first = await pagedList(context, fetchPage, double, 4);
+
+        expect(await next(context, first.nextPageCursor!, 4)).toEqual({ items: [8, 10, 12, 14], nextPageCursor: 'cursor-2' });
+        expect(await next(context, 'cursor-2', 4)).toEqual({ items: [16, 18] });
+    });
+
+    test('returns the same page when a cursor is reused', async () => {
+        const context = createToolContext(chainRegistry.defaultChain);
+        const first = await pagedList(context, fetchPage, double, 4);
+
+        const again = await next(context, first.nextPageCursor!, 2);
+
+        expect(again).toMatchObject({ items: [8, 10] });
+        expect(await next(context, first.nextPageCursor!, 2)).toMatchObject({ items: [8, 10] });
+    });
+
+    test('explains unknown cursors', async () => {
+        const context = createToolContext(chainRegistry.defaultChain);
+
+        expect(await next(context, 'cursor-42')).toBe('❌ Unknown cursor: cursor-42. Cursors only refer to results from this conversation.');
+    });
+});
+
+test('clampLimit keeps limits between 1 and 100', () => {
+    expect(clampLimit(undefined, 10)).toBe(10);
+    expect(clampLimit(0, 10)).toBe(1);
+    expect(clampLimit(2.7, 10)).toBe(2);
+    expect(clampLimit(500, 10)).toBe(100);
+});
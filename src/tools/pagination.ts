@@ -0,0 +1,34 @@
+import { paginate, type FetchPage, type PageCursor } from '../api/paginate';
+import type { ToolContext } from './context';
+
+export type PagedList<R> = {
+    items: R[];
+    // Pass to getNextPage to continue the list; absent when there is nothing more
+    nextPageCursor?: string;
+};
+
+export const MAX_LIST_LIMIT = 100;
+
+export const clampLimit = (limit: number | undefined, fallback: number) =>
+    Math.max(1, Math.min(Math.floor(limit ?? fallback), MAX_LIST_LIMIT));
+
+// Collects `limit` mapped items and registers a cursor for the rest of the list
+export async function pagedList<T, R>(
+    context: ToolContext,
+    fetchPage: FetchPage<T>,
+    map: (item: T) => R,
+    limit: number,
+    from?: PageCursor<T>
+): Promise<PagedList<R>> {
+    const page = await paginate(fetchPage, { limit, from });
+    const items = page.items.map(map);
+    const next = page.next;
+
+    if (!next) {
+        return { items };
+    }
+
+    const nextPageCursor = context.cursors.save((nextLimit) => pagedList(context, fetchPage, map, nextLimit, next));
+
+    return { items, nextPageCursor };
+}
@@ -0,0 +1,22 @@
+import type { UseApi } from '../api';
+import { debug } from '../debug';
+
+/**
+ * USD price of the chain's native coin. Address responses usually carry it as exchange_rate;
+ * otherwise it comes from /stats. Null when the instance has no price (e.g. testnets).
+ */
+export async function nativeCoinPrice(useApi: UseApi, exchangeRate?: string | null): Promise<string | null> {
+    if (exchangeRate) {
+        return exchangeRate;
+    }
+
+    try {
+        const response = await useApi('/stats', 'get', {});
+
+        return response.status === 200 && response.data.coin_price ? response.data.coin_price : null;
+    } catch (error) {
+        // A missing price must not fail the lookup it decorates
+        debug('Coin price unavailable', error);
+        return null;
+    }
+}
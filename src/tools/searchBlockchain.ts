@@ -0,0 +1,82 @@
+import { Type } from '@google/genai';
+
+import { getApi } from '../api';
+import { toPage } from '../api/paginate';
+import { debug } from '../debug';
+import { optionalNumber, requireString } from './args';
+import { toSearchResult, type SearchItem } from './mappers';
+import { clampLimit, pagedList } from './pagination';
+import { defineTool } from './types';
+
+export const searchBlockchain = defineTool({
+    name: 'searchBlockchain',
+    description: 'Universal search function that can find and resolve: ENS names (like vitalik.eth), addresses, transaction hashes, block numbers, token names/symbols, and more. This is the best function to use when you have ENS names or need to find something by name or partial identifier.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            query: {
+                type: Type.STRING,
+                description: 'Search query - can be ENS names (vitalik.eth), partial addresses, token names (USDC), transaction hashes, block numbers, or any blockchain identifier'
+            },
+            limit: {
+                type: Type.NUMBER,
+                description: 'Number of results to retrieve (default: 10, max: 100). If more exist, use getNextPage with the returned nextPageCursor'
+            }
+        },
+        required: ['query']
+    },
+    validate: (args) => ({
+        query: requireString(args, 'query'),
+        limit: optionalNumber(args, 'limit')
+    }),
+    async handler({ query, limit }, context) {
+        debug(`searchBlockchain called with query: ${query}`);
+        const useApi = getApi(context.chain, context.scope);
+        try {
+            // Limit results to avoid overwhelming responses (10 results unless asked for more)
+            const page = await pagedList(
+                context,
+                async (pageParams) => {
+                    debug('Making API call to /search', pageParams);
+                    const response = await useApi('/search', 'get', {
+                        query: { ...pageParams, q: query }
+                    });
+
+                    return toPage<SearchItem>(response, 'search results');
+                },
+                (item) => toSearchResult(item, query),
+                clampLimit(limit, 10)
+            );
+            debug(`Processed ${page.items.length} search results`);
+
+            // Find resolved address for ENS lookups - check both ens_domain and address types
+            let resolvedAddress = null;
+            if (query.endsWith('.eth')) {
+                const ensResult = page.items.find((result) =>
+                    (result.type === 'ens_domain' || result.type === 'address') && result.address
+                );
+                if (ensResult) {
+                    resolvedAddress = ensResult.address;
+                    debug(`ENS resolution found: ${query} -> ${resolvedAddress}`);
+                }
+            }
+
+            const finalResult = {
+                query,
+                resultsCount: page.items.length,
+                results: page.items,
+                // Provide a direct address if this was an ENS lookup
+                resolvedAddress,
+                // Indicate if results were truncated
+                truncated: page.nextPageCursor !== undefined,
+                nextPageCursor: page.nextPageCursor
+            };
+
+            debug('Final search result', finalResult);
+            return finalResult;
+        } catch (error) {
+            debug('Error in searchBlockchain', error);
+            return `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+});
@@ -0,0 +1,61 @@
+import type { Schema } from '@google/genai';
+
+import type { ToolContext } from './context';
+
+export type { ToolContext } from './context';
+
+export type ToolArgs = Record<string, unknown>;
+
+/**
+ * A single tool the model can call.
+ *
+ * `validate` turns the raw, model-produced arguments into typed arguments
+ * (throwing a ToolArgumentError when they are unusable) and `handler` does
+ * the actual work.
+ */
+export type Tool<TArgs = any> = {
+    name: string;
+    description: string;
+    parameters: Schema;
+    // Tools that query every chain themselves do not take a chain argument
+    multiChain?: boolean;
+    validate: (args: ToolArgs) => TArgs;
+    handler: (args: TArgs, context: ToolContext) => Promise<unknown>;
+};
+
+export const defineTool = <TArgs>(tool: Tool<TArgs>) => tool;
+
+// What was wrong with an argument, in terms the model can act on
+export type ArgumentProblem = {
+    // Machine-readable kind of problem, e.g. invalid_address
+    code: string;
+    argument?: string;
+    value?: unknown;
+    // How to get a usable value
+    hint?: string;
+};
+
+export class ToolArgumentError extends Error {
+    constructor(message: string, readonly problem: ArgumentProblem = { code: 'invalid_argument' }) {
+        super(message);
+        this.name = 'ToolArgumentError';
+    }
+}
+
+/**
+ * Returned instead of a result when a call could not be made as asked.
+ * Unlike a plain "❌ ..." string it tells the model which argument to fix.
+ */
+export type ToolError = ArgumentProblem & {
+    error: string;
+    problem: string;
+};
+
+export const isToolError = (value: unknown): value is ToolError =>
+    typeof value === 'object' && value !== null && typeof (value as ToolError).error === 'string' && typeof (value as ToolError).code === 'string';
+
+export const toolError = (error: string, message: string, problem: ArgumentProblem): ToolError => ({
+    error,
+    problem: message,
+    ...problem,
+});
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+
+import { createFakeApi } from '../api/fake';
+import type { Chain } from '../chains';
+import { createToolContext } from './context';
+import { ToolArgumentError } from './types';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const OTHER = '0x0000000000000000000000000000000000000bad';
+
+const ethereum: Chain = {
+    name: 'ethereum',
+    chainId: 1,
+    blockscoutUrl: 'https://eth.blockscout.com/api/v2/',
+    nativeCurrency: { symbol: 'ETH', decimals: 18 },
+};
+
+const api = createFakeApi({
+    '/addresses/{address_hash}': { status: 200, data: { hash: VITALIK, coin_balance: '1000000000000000000', exchange_rate: '3000', is_contract: false, is_verified: false } },
+});
+
+mock.module('../api', () => ({ getApi: api.getApi }));
+
+const { isEnsName, requireAddress, requireAddressOrEns, requireBlockId, requireTransactionHash, resolveAddress, toChecksumAddress } = await import('./validation');
+const { executeFunction } = await import('.');
+
+beforeEach(() => {
+    api.reset();
+});
+
+// The problem a validator reports instead of returning
+const problem = (validate: () => unknown) => {
+    try {
+        validate();
+    } catch (error) {
+        if (error instanceof ToolArgumentError) {
+            return error.problem;
+        }
+
+        throw error;
+    }
+
+    throw new Error('Expected a ToolArgumentError');
+};
+
+test('computes EIP-55 checksums', () => {
+    for (const address of [
+        '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+        '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+        '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+        '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+        VITALIK,
+    ]) {
+        expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+    }
+});
+
+describe('requireAddress', () => {
+    test('checksums lowercase and uppercase addresses', () => {
+        expect(requireAddress({ address: VITALIK.toLowerCase() }, 'address')).toBe(VITALIK);
+        expect(requireAddress({ address: `0x${VITALIK.slice(2).toUpperCase()}` }, 'address')).toBe(VITALIK);
+    });
+
+    test('rejects mixed-case addresses with a wrong checksum', () => {
+        expect(problem(() => requireAddress({ address: '0xd8dA6BF26964af9D7eEd9e03E53415D37aA96045' }, 'address'))).toMatchObject({ code: 'bad_checksum' });
+    });
+
+    test('recognises shortened values and hashes', () => {
+        expect(problem(() => requireAddress({ address: '0xd8dA…6045' }, 'address'))).toMatchObject({ code: 'truncated_value' });
+        expect(problem(() => requireAddress({ address: TX_HASH }, 'address'))).toMatchObject({ code: 'hash_not_address' });
+        expect(problem(() => requireAddress({ address: 'd8dA6BF26964aF9D7eEd9e03E53415D37aA96045' }, 'address'))).toMatchObject({ code: 'invalid_address' });
+    });
+});
+
+describe('requireAddressOrEns', () => {
+    test('tells ENS names from addresses', () => {
+        expect(requireAddressOrEns({ address: 'Vitalik.eth' }, 'address')).toEqual({ kind: 'ens', name: 'vitalik.eth' });
+        expect(requireAddressOrEns({ address: VITALIK.toLowerCase() }, 'address')).toEqual({ kind: 'address', address: VITALIK });
+    });
+
+    test('isEnsName accepts subdomains but not hex or paths', () => {
+        expect(isEnsName('pay.coinbase.eth')).toBe(true);
+        expect(isEnsName('0xabc.eth')).toBe(false);
+        expect(isEnsName('vitalik')).toBe(false);
+        expect(isEnsName('a/b.eth')).toBe(false);
+    });
+});
+
+test('requireTransactionHash lowercases hashes and rejects addresses', () => {
+    expect(requireTransactionHash({ txHash: TX_HASH.toUpperCase().replace('0X', '0x') }, 'txHash')).toBe(TX_HASH);
+    expect(problem(() => requireTransactionHash({ txHash: VITALIK }, 'txHash'))).toMatchObject({ code: 'address_not_hash' });
+});
+
+describe('requireBlockId', () => {
+    test('accepts block numbers and hashes', () => {
+        expect(requireBlockId({ block: '19000000' }, 'block')).toBe('19000000');
+        expect(requireBlockId({ block: '0x10' }, 'block')).toBe('16');
+        expect(requireBlockId({ block: '00042' }, 'block')).toBe('42');
+        expect(requireBlockId({ block: TX_HASH.toUpperCase().replace('0X', '0x') }, 'block')).toBe(TX_HASH);
+        expect(() => requireBlockId({ block: 'latest' }, 'block')).toThrow('neither a block number nor a 32-byte block hash');
+    });
+
+    test('keeps every digit of block numbers beyond 2^53', () => {
+        expect(requireBlockId({ block: '9007199254740993' }, 'block')).toBe('9007199254740993');
+        expect(requireBlockId({ block: '0x20000000000001' }, 'block')).toBe('9007199254740993');
+    });
+});
+
+describe('resolveAddress', () => {
+    const resolve = (name: string) => resolveAddress({ kind: 'ens', name }, createToolContext(ethereum));
+
+    const cannedSearch = (items: unknown[]) => {
+        api.responses['/search'] = { status: 200, data: { items, next_page_params: null } };
+    };
+
+    test('passes addresses through without a request', async () => {
+        expect(await resolveAddress({ kind: 'address', address: VITALIK }, createToolContext(ethereum))).toBe(VITALIK);
+        expect(api.calls).toEqual([]);
+    });
+
+    test('resolves ENS names through search to a checksummed address', async () => {
+        cannedSearch([{ type: 'ens_domain', address_hash: VITALIK.toLowerCase(), ens_info: { name: 'vitalik.eth' } }]);
+
+        expect(await resolve('vitalik.eth')).toBe(VITALIK);
+        expect(api.calls).toEqual([{ path: '/search', options: { query: { q: 'vitalik.eth' } } }]);
+    });
+
+    test('does not resolve ENS names to a similar name found by search', async () => {
+        cannedSearch([
+            { type: 'ens_domain', address_hash: OTHER, ens_info: { name: 'vitalik.eth.limo' }, name: 'vitalik.eth.limo' },
+            { type: 'address', address: OTHER, name: 'vitalikk.eth' },
+        ]);
+
+        expect(await resolve('vitalik.eth')).toMatchObject({ code: 'ens_not_found', value: 'vitalik.eth' });
+    });
+
+    test('explains ENS names that do not resolve', async () => {
+        cannedSearch([]);
+
+        expect(await resolve('nobody-here.eth')).toMatchObject({ code: 'ens_not_found', value: 'nobody-here.eth', problem: 'No address is registered for "nobody-here.eth" on ethereum' });
+    });
+});
+
+describe('tool arguments', () => {
+    const run = (name: string, args: Record<string, unknown>) => executeFunction({ name, args }, createToolContext(ethereum));
+
+    test('normalizes lowercase addresses to their checksummed form', async () => {
+        await run('getAddressInfo', { address: VITALIK.toLowerCase() });
+
+        expect(api.calls).toEqual([{ path: '/addresses/{address_hash}', options: { path: { address_hash: VITALIK } } }]);
+    });
+
+    test('resolves ENS names before the request', async () => {
+        api.responses['/search'] = {
+            status: 200,
+            data: { items: [{ type: 'ens_domain', address_hash: VITALIK.toLowerCase(), ens_info: { name: 'vitalik.eth' } }], next_page_params: null }
+        };
+
+        expect(await run('getAddressInfo', { address: 'Vitalik.eth' })).toMatchObject({ address: VITALIK });
+        expect(api.calls.map((call) => call.path)).toEqual(['/search', '/addresses/{address_hash}']);
+        expect(api.calls[1]!.options).toEqual({ path: { address_hash: VITALIK } });
+    });
+
+    const rejected: [string, string, Record<string, unknown>, string][] = [
+        ['truncated addresses', 'getAddressInfo', { address: '0xd8dA...6045' }, 'truncated_value'],
+        ['addresses with a broken checksum', 'getAddressInfo', { address: '0xd8dA6BF26964af9D7eEd9e03E53415D37aA96045' }, 'bad_checksum'],
+        ['transaction hashes given as an address', 'getAddressTokenBalances', { address: TX_HASH }, 'hash_not_address'],
+        ['addresses given as a transaction hash', 'getTransactionInfo', { txHash: VITALIK }, 'address_not_hash'],
+        ['short transaction hashes', 'getTransactionInfo', { txHash: '0xabc' }, 'invalid_hash'],
+        ['token addresses that are not hex', 'getTokenInfo', { tokenAddress: 'USDC' }, 'invalid_address'],
+        ['block ids that are neither a number nor a hash', 'getBlockInfo', { blockId: 'latest' }, 'invalid_block'],
+    ];
+
+    for (const [what, tool, args, code] of rejected) {
+        test(`rejects ${what} before any request`, async () => {
+            const result = await run(tool, args);
+
+            expect(result).toMatchObject({ error: `❌ Invalid arguments for ${tool}`, code, value: Object.values(args)[0], problem: expect.any(String) });
+            expect(api.calls).toHaveLength(0);
+        });
+    }
+});
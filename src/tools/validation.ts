@@ -0,0 +1,181 @@
+import { getApi } from '../api';
+import { debug } from '../debug';
+import { keccak256 } from '../keccak';
+import { requireString } from './args';
+import type { ToolContext } from './context';
+import type { SearchItem } from './mappers';
+import { ToolArgumentError, toolError, type ToolArgs, type ToolError } from './types';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const HEX_PATTERN = /^(0x)?[0-9a-fA-F]+$/;
+// Shortened for display, e.g. 0x1234...5678 or 0x1234…5678
+const TRUNCATED_PATTERN = /^0x[0-9a-fA-F]*(\.{2,}|…)[0-9a-fA-F]*$/;
+// vitalik.eth, pay.coinbase.eth, name.base.eth, ...
+const ENS_PATTERN = /^(?!0x)[^\s./\\]+(\.[^\s./\\]+)*\.[a-z]{2,}$/i;
+
+// EIP-55: each letter is upper case when the matching nibble of keccak256(lowercase address) is >= 8
+export const toChecksumAddress = (address: string) => {
+    const lower = address.slice(2).toLowerCase();
+    const hash = keccak256(lower);
+
+    return `0x${[...lower].map((char, index) => parseInt(hash[index]!, 16) >= 8 ? char.toUpperCase() : char).join('')}`;
+};
+
+export const isEnsName = (value: string) => ENS_PATTERN.test(value);
+
+// An address, or an ENS name still to be resolved
+export type AddressInput =
+    | { kind: 'address'; address: string }
+    | { kind: 'ens'; name: string };
+
+const hexLength = (value: string) => value.replace(/^0x/i, '').length;
+
+// Explains what a value that is not the expected kind of identifier looks like instead
+const misidentified = (value: string, argument: string, expected: 'address' | 'hash'): ToolArgumentError | undefined => {
+    if (TRUNCATED_PATTERN.test(value)) {
+        return new ToolArgumentError(`"${argument}" is shortened (${value}); the middle of the value is missing`, {
+            code: 'truncated_value',
+            argument,
+            value,
+            hint: 'Use the full value from an earlier tool result, or ask the user for it. searchBlockchain can find the full value from a name.',
+        });
+    }
+
+    if (expected === 'address' && HASH_PATTERN.test(value)) {
+        return new ToolArgumentError(`"${argument}" is a 32-byte hash, not a 20-byte address`, {
+            code: 'hash_not_address',
+            argument,
+            value,
+            hint: 'This is probably a transaction hash: use getTransactionInfo. Block hashes can be looked up with getBlockInfo.',
+        });
+    }
+
+    if (expected === 'hash' && ADDRESS_PATTERN.test(value)) {
+        return new ToolArgumentError(`"${argument}" is a 20-byte address, not a 32-byte transaction hash`, {
+            code: 'address_not_hash',
+            argument,
+            value,
+            hint: 'Use getAddressInfo or getAddressTransactions for addresses.',
+        });
+    }
+
+    if (HEX_PATTERN.test(value)) {
+        const expectedLength = expected === 'address' ? 40 : 64;
+
+        return new ToolArgumentError(`"${argument}" has ${hexLength(value)} hex digits${value.startsWith('0x') ? '' : ' and no 0x prefix'}; ${expected === 'address' ? 'an address' : 'a hash'} has 0x followed by ${expectedLength}`, {
+            code: expected === 'address' ? 'invalid_address' : 'invalid_hash',
+            argument,
+            value,
+            hint: 'Check that the value was copied completely.',
+        });
+    }
+
+    return undefined;
+};
+
+const parseAddress = (value: string, argument: string) => {
+    if (!ADDRESS_PATTERN.test(value)) {
+        throw misidentified(value, argument, 'address') ?? new ToolArgumentError(`"${argument}" is not an address (0x followed by 40 hex digits)`, {
+            code: 'invalid_address',
+            argument,
+            value,
+        });
+    }
+
+    const checksummed = toChecksumAddress(value);
+    const digits = value.slice(2);
+
+    // All-lowercase and all-uppercase addresses carry no checksum
+    if (digits !== digits.toLowerCase() && digits !== digits.toUpperCase() && value !== checksummed) {
+        throw new ToolArgumentError(`"${argument}" fails its EIP-55 checksum, so at least one character is wrong`, {
+            code: 'bad_checksum',
+            argument,
+            value,
+            hint: 'Ask the user to copy the address again; do not guess the correct characters.',
+        });
+    }
+
+    return checksummed;
+};
+
+// A 0x address, normalized to its checksummed form
+export const requireAddress = (args: ToolArgs, key: string) => parseAddress(requireString(args, key), key);
+
+// A 0x address, or an ENS name for resolveAddress
+export const requireAddressOrEns = (args: ToolArgs, key: string): AddressInput => {
+    const value = requireString(args, key);
+
+    return isEnsName(value) ? { kind: 'ens', name: value.toLowerCase() } : { kind: 'address', address: parseAddress(value, key) };
+};
+
+// A 32-byte transaction hash, lowercased
+export const requireTransactionHash = (args: ToolArgs, key: string) => {
+    const value = requireString(args, key);
+
+    if (!HASH_PATTERN.test(value)) {
+        throw misidentified(value, key, 'hash') ?? new ToolArgumentError(`"${key}" is not a transaction hash (0x followed by 64 hex digits)`, {
+            code: 'invalid_hash',
+            argument: key,
+            value,
+        });
+    }
+
+    return value.toLowerCase();
+};
+
+// A block number (decimal or 0x hex) or a 32-byte block hash; numbers come back in decimal
+export const requireBlockId = (args: ToolArgs, key: string) => {
+    const value = requireString(args, key);
+
+    if (HASH_PATTERN.test(value)) {
+        return value.toLowerCase();
+    }
+
+    // BigInt keeps every digit, where Number would round past 2^53
+    if (/^\d+$/.test(value) || /^0x[0-9a-fA-F]{1,16}$/.test(value)) {
+        return BigInt(value).toString();
+    }
+
+    throw misidentified(value, key, 'hash') ?? new ToolArgumentError(`"${key}" is neither a block number nor a 32-byte block hash`, {
+        code: 'invalid_block',
+        argument: key,
+        value,
+        hint: 'Use a number like 19000000 or a 0x block hash. For "latest", use getLatestBlocks.',
+    });
+};
+
+/**
+ * Turns an address argument into an address, resolving ENS names through
+ * Blockscout search first. Unknown names come back as a ToolError.
+ */
+export async function resolveAddress(input: AddressInput, context: ToolContext, argument = 'address'): Promise<string | ToolError> {
+    if (input.kind === 'address') {
+        return input.address;
+    }
+
+    debug(`Resolving ENS name ${input.name}`);
+    const useApi = getApi(context.chain, context.scope);
+    const response = await useApi('/search', 'get', {
+        query: { q: input.name }
+    });
+
+    const items: SearchItem[] = response.status === 200 ? response.data.items ?? [] : [];
+    // Only the exact name counts; search also returns similar names, which belong to other accounts
+    const named = (item: SearchItem) => [item.ens_info?.name, item.name].some((name) => name?.toLowerCase() === input.name);
+    const match = items.find((item) => item.type === 'ens_domain' && named(item))
+        ?? items.find((item) => item.type === 'address' && named(item));
+    const address = match?.address_hash ?? match?.address;
+
+    if (typeof address !== 'string' || !ADDRESS_PATTERN.test(address)) {
+        return toolError(`❌ Could not resolve ${input.name}`, `No address is registered for "${input.name}" on ${context.chain.name}`, {
+            code: 'ens_not_found',
+            argument,
+            value: input.name,
+            hint: 'Check the spelling with the user, or try searchBlockchain with part of the name.',
+        });
+    }
+
+    debug(`ENS resolution: ${input.name} -> ${address}`);
+    return toChecksumAddress(address);
+}
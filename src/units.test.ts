@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { Chain } from './chains';
+import { formatAmount, formatGwei, formatNative, formatUnits, formatUsd, parseDecimals, usdCents, usdValue } from './units';
+
+describe('formatUnits', () => {
+    test('formats 18-decimal amounts exactly', () => {
+        expect(formatUnits('1000000000000000000', 18)).toBe('1');
+        expect(formatUnits('1500000000000000000', 18)).toBe('1.5');
+        expect(formatUnits('1', 18)).toBe('0.000000000000000001');
+        // Beyond Number.MAX_SAFE_INTEGER, where a float would already have lost digits
+        expect(formatUnits('123456789012345678901234567', 18)).toBe('123456789.012345678901234567');
+    });
+
+    test('formats 6-decimal amounts exactly', () => {
+        expect(formatUnits('1000000', 6)).toBe('1');
+        expect(formatUnits('2500000', 6)).toBe('2.5');
+        expect(formatUnits('999999', 6)).toBe('0.999999');
+        expect(formatUnits('40000000000000001', 6)).toBe('40000000000.000001');
+    });
+
+    test('leaves 0-decimal amounts as whole numbers', () => {
+        expect(formatUnits('42', 0)).toBe('42');
+        expect(formatUnits('0', 0)).toBe('0');
+        expect(formatUnits('1000', 0)).toBe('1000');
+    });
+
+    test('handles zero, negative and bigint amounts', () => {
+        expect(formatUnits('0', 18)).toBe('0');
+        expect(formatUnits('-1500000', 6)).toBe('-1.5');
+        expect(formatUnits(10n ** 18n, 18)).toBe('1');
+    });
+
+    test('rejects amounts that are not integers and invalid decimals', () => {
+        expect(() => formatUnits('1.5', 18)).toThrow('Not an integer amount');
+        expect(() => formatUnits('', 18)).toThrow('Not an integer amount');
+        expect(() => formatUnits('0x10', 18)).toThrow('Not an integer amount');
+        expect(() => formatUnits('1', -1)).toThrow('Invalid decimals');
+        expect(() => formatUnits('1', 1.5)).toThrow('Invalid decimals');
+    });
+});
+
+describe('parseDecimals', () => {
+    test('accepts numbers and the numeric strings Blockscout sends', () => {
+        expect(parseDecimals('18')).toBe(18);
+        expect(parseDecimals(6)).toBe(6);
+        expect(parseDecimals('0')).toBe(0);
+    });
+
+    test('returns undefined when a token has no usable decimals', () => {
+        expect(parseDecimals(null)).toBeUndefined();
+        expect(parseDecimals(undefined)).toBeUndefined();
+        expect(parseDecimals('')).toBeUndefined();
+        expect(parseDecimals('-1')).toBeUndefined();
+        expect(parseDecimals('1e3')).toBeUndefined();
+    });
+});
+
+describe('formatAmount', () => {
+    test('appends the symbol', () => {
+        expect(formatAmount('1234500000000000000000', '18', 'DAI')).toBe('1234.5 DAI');
+        expect(formatAmount('1234500000', '6', 'USDC')).toBe('1234.5 USDC');
+        expect(formatAmount('7', '0', 'TICKET')).toBe('7 TICKET');
+        expect(formatAmount('7', '0')).toBe('7');
+    });
+
+    test('returns undefined instead of guessing', () => {
+        expect(formatAmount('1', null, 'NFT')).toBeUndefined();
+        expect(formatAmount(null, '18', 'ETH')).toBeUndefined();
+        expect(formatAmount('1.5', '18', 'ETH')).toBeUndefined();
+    });
+});
+
+test('formatGwei converts wei gas prices', () => {
+    expect(formatGwei('26129428136')).toBe('26.129428136 Gwei');
+    expect(formatGwei('1000000000')).toBe('1 Gwei');
+    expect(formatGwei(null)).toBeUndefined();
+});
+
+test('formatNative uses the chain currency', () => {
+    const gnosis = { nativeCurrency: { symbol: 'xDAI', decimals: 18 } } as Chain;
+
+    expect(formatNative('250000000000000000', gnosis)).toBe('0.25 xDAI');
+});
+
+describe('usdCents', () => {
+    test('values 18-, 6- and 0-decimal amounts exactly', () => {
+        expect(usdCents('1500000000000000000', '18', '3512.37')).toBe(526856n);
+        expect(usdCents('1500000000', '6', '0.9998')).toBe(149970n);
+        expect(usdCents('3', '0', '12.5')).toBe(3750n);
+    });
+
+    test('rounds to the nearest cent, halves up', () => {
+        expect(usdCents('5', '3', '1')).toBe(1n);
+        expect(usdCents('4', '3', '1')).toBe(0n);
+        expect(usdCents('1000000000000000000', '18', '1.2e-3')).toBe(0n);
+        expect(usdCents('1000000000000000000000', '18', '1.2e-3')).toBe(120n);
+    });
+
+    test('returns undefined without a price or decimals', () => {
+        expect(usdCents('1000000', '6', null)).toBeUndefined();
+        expect(usdCents('1000000', '6', '')).toBeUndefined();
+        expect(usdCents('1', null, '100')).toBeUndefined();
+        expect(usdCents(undefined, '18', '100')).toBeUndefined();
+    });
+});
+
+test('formatUsd and usdValue print cents with two places', () => {
+    expect(formatUsd(0n)).toBe('0.00');
+    expect(formatUsd(5n)).toBe('0.05');
+    expect(formatUsd(123456n)).toBe('1234.56');
+    expect(usdValue('2000000000000000000', '18', '2500.5')).toBe('5001.00');
+    expect(usdValue('1', '0', null)).toBeUndefined();
+});
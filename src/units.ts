@@ -0,0 +1,101 @@
+// Exact conversions from integer base units (wei, token units) to decimal strings, without floating point
+
+import type { Chain } from './chains';
+
+export const GWEI_DECIMALS = 9;
+
+const INTEGER = /^-?\d+$/;
+
+// Blockscout sends decimals as a string, and null for tokens without them (NFTs)
+export const parseDecimals = (decimals: unknown): number | undefined => {
+    const parsed = typeof decimals === 'string' && /^\d+$/.test(decimals) ? Number(decimals) : decimals;
+
+    return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0 && parsed <= 255 ? parsed : undefined;
+};
+
+/**
+ * Shifts `raw` base units `decimals` places to the right: formatUnits('1500000000000000000', 18) is '1.5'.
+ * Trailing fractional zeros are dropped; no digits are ever rounded away.
+ */
+export const formatUnits = (raw: bigint | string, decimals: number): string => {
+    if (typeof raw === 'string' && !INTEGER.test(raw)) {
+        throw new Error(`Not an integer amount: ${raw}`);
+    }
+
+    if (parseDecimals(decimals) === undefined) {
+        throw new Error(`Invalid decimals: ${decimals}`);
+    }
+
+    const value = BigInt(raw);
+    const negative = value < 0n;
+    const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+// '1.5 ETH', or undefined when the amount is missing or the decimals are unknown
+export const formatAmount = (raw: unknown, decimals: unknown, symbol?: string | null): string | undefined => {
+    const places = parseDecimals(decimals);
+
+    if (places === undefined || !(typeof raw === 'bigint' || (typeof raw === 'string' && INTEGER.test(raw)))) {
+        return undefined;
+    }
+
+    const amount = formatUnits(raw, places);
+
+    return symbol ? `${amount} ${symbol}` : amount;
+};
+
+export const formatGwei = (wei: unknown) => formatAmount(wei, GWEI_DECIMALS, 'Gwei');
+
+// Wei in the chain's native currency, e.g. '0.25 xDAI' on Gnosis
+export const formatNative = (wei: unknown, chain: Chain) =>
+    formatAmount(wei, chain.nativeCurrency.decimals, chain.nativeCurrency.symbol);
+
+// A price such as '0.99' or '1.2e-7' as an integer and a number of decimal places
+const parseDecimal = (value: unknown): { units: bigint; decimals: number } | undefined => {
+    const match = typeof value === 'string' ? /^(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i.exec(value.trim()) : null;
+
+    if (!match) {
+        return undefined;
+    }
+
+    const [, whole, fraction = '', exponent = '0'] = match;
+    const decimals = fraction.length - Number(exponent);
+
+    return decimals >= 0
+        ? { units: BigInt(whole + fraction), decimals }
+        : { units: BigInt(whole + fraction) * 10n ** BigInt(-decimals), decimals: 0 };
+};
+
+/**
+ * Value of `raw` base units at a USD `price` per whole unit, in cents rounded half up.
+ * Undefined when the token has no price or no decimals; callers flag those instead of guessing.
+ */
+export const usdCents = (raw: unknown, decimals: unknown, price: unknown): bigint | undefined => {
+    const places = parseDecimals(decimals);
+    const rate = parseDecimal(price);
+
+    if (places === undefined || !rate || typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+        return undefined;
+    }
+
+    const divisor = 10n ** BigInt(places + rate.decimals);
+
+    return (BigInt(raw) * rate.units * 100n * 2n + divisor) / (divisor * 2n);
+};
+
+// Cents as '1234.50'
+export const formatUsd = (cents: bigint) => {
+    const digits = cents.toString().padStart(3, '0');
+
+    return `${digits.slice(0, -2)}.${digits.slice(-2)}`;
+};
+
+export const usdValue = (raw: unknown, decimals: unknown, price: unknown) => {
+    const cents = usdCents(raw, decimals, price);
+
+    return cents === undefined ? undefined : formatUsd(cents);
+};